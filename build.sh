@@ -11,33 +11,33 @@ echo "=== Building DB Analyzer for multiple platforms ==="
 
 # Linux builds (x86_64 and ARM64)
 echo "Building for Linux (x86_64)..."
-deno compile --allow-net --allow-read --allow-write --allow-env \
+deno compile --allow-net --allow-read --allow-write --allow-env --allow-run=rustfmt \
   --target x86_64-unknown-linux-gnu \
   --output bin/linux/db_analyzer-x86_64 \
   main.ts
 
 echo "Building for Linux (ARM64)..."
-deno compile --allow-net --allow-read --allow-write --allow-env \
+deno compile --allow-net --allow-read --allow-write --allow-env --allow-run=rustfmt \
   --target aarch64-unknown-linux-gnu \
   --output bin/linux/db_analyzer-arm64 \
   main.ts
 
 # macOS builds (x86_64 and ARM64)
 echo "Building for macOS (x86_64)..."
-deno compile --allow-net --allow-read --allow-write --allow-env \
+deno compile --allow-net --allow-read --allow-write --allow-env --allow-run=rustfmt \
   --target x86_64-apple-darwin \
   --output bin/mac/db_analyzer-x86_64 \
   main.ts
 
 echo "Building for macOS (ARM64)..."
-deno compile --allow-net --allow-read --allow-write --allow-env \
+deno compile --allow-net --allow-read --allow-write --allow-env --allow-run=rustfmt \
   --target aarch64-apple-darwin \
   --output bin/mac/db_analyzer-arm64 \
   main.ts
 
 # Windows builds (x86_64)
 echo "Building for Windows (x86_64)..."
-deno compile --allow-net --allow-read --allow-write --allow-env \
+deno compile --allow-net --allow-read --allow-write --allow-env --allow-run=rustfmt \
   --target x86_64-pc-windows-msvc \
   --output bin/win/db_analyzer.exe \
   main.ts
@@ -0,0 +1,132 @@
+// Per-column overrides from the "columns" section of mappings.json and from
+// annotations in column comments: field type, field name, extra attributes
+// and leaving the column out
+
+import { parseComment } from "./comments.ts";
+import type { SchemaModel } from "./introspect.ts";
+
+export type ColumnOverride = {
+  // Rust type replacing the mapped type; nullable columns still get Option<T>
+  type?: string;
+  // Field name replacing the snake_case column name
+  rename?: string;
+  // Extra attributes for the row struct field, without #[...]
+  attributes?: string[];
+  // Leave the column out of the generated structs
+  skip?: boolean;
+};
+
+// "columns" as written in mappings.json: a type string or an override object,
+// keyed by "table.column" or "schema.table.column"
+export type ColumnOverrideMappings = Record<string, string | ColumnOverride>;
+
+// Normalize each entry of the "columns" section of mappings.json to a
+// ColumnOverride. The section is validated by parseConfig.
+export function normalizeColumnOverrides(
+  mappings: ColumnOverrideMappings = {},
+): Record<string, ColumnOverride> {
+  const overrides: Record<string, ColumnOverride> = {};
+  for (const [key, value] of Object.entries(mappings)) {
+    if (typeof value === "string") {
+      overrides[key] = { type: value };
+      continue;
+    }
+    overrides[key] = {
+      ...value,
+      // Accept attributes with or without the surrounding #[...]
+      attributes: value.attributes?.map((attribute) =>
+        attribute.trim().replace(/^#\[(.*)\]$/, "$1")
+      ),
+    };
+  }
+  return overrides;
+}
+
+// Overrides from @rust-type and @skip annotations in the comments of table
+// columns, keyed by "schema.table.column"
+export function annotationOverrides(
+  schemas: SchemaModel[],
+): Map<string, ColumnOverride> {
+  const overrides = new Map<string, ColumnOverride>();
+  for (const schema of schemas) {
+    for (const table of schema.tables) {
+      for (const column of table.columns) {
+        const key = `${schema.name}.${table.name}.${column.name}`;
+        const { annotations } = parseComment(
+          column.comment,
+          `Comment on column ${key}`,
+        );
+        if (annotations.rustType || annotations.skip) {
+          overrides.set(key, {
+            type: annotations.rustType,
+            skip: annotations.skip || undefined,
+          });
+        }
+      }
+    }
+  }
+  return overrides;
+}
+
+// Resolve overrides against the introspected schemas, keyed by
+// "schema.table.column". "table.column" keys apply to that table in every
+// schema, unless a "schema.table.column" key overrides them. Keys naming a
+// table or column that doesn't exist are an error unless strict is false, as
+// when resolving them against an older version of the schemas. Annotations in
+// column comments apply where mappings.json doesn't set the same thing.
+export function resolveColumnOverrides(
+  schemas: SchemaModel[],
+  overrides: Record<string, ColumnOverride>,
+  strict = true,
+): Map<string, ColumnOverride> {
+  const resolved = new Map<string, ColumnOverride>();
+
+  // Schema-qualified keys are applied last so that they take precedence
+  const entries = Object.entries(overrides).sort(([a], [b]) =>
+    a.split(".").length - b.split(".").length
+  );
+  for (const [key, override] of entries) {
+    const parts = key.split(".");
+    const [schemaName, tableName, columnName] = parts.length === 3
+      ? parts
+      : [null, ...parts];
+
+    const tables = schemas
+      .filter((schema) => schemaName === null || schema.name === schemaName)
+      .flatMap((schema) =>
+        schema.tables
+          .filter((table) => table.name === tableName)
+          .map((table) => ({ schema, table }))
+      );
+    if (tables.length === 0 && strict) {
+      throw new Error(
+        `Column override "${key}" names table "${
+          schemaName ? `${schemaName}.${tableName}` : tableName
+        }", which doesn't exist`,
+      );
+    }
+
+    for (const { schema, table } of tables) {
+      if (!table.columns.some((column) => column.name === columnName)) {
+        if (!strict) continue;
+        throw new Error(
+          `Column override "${key}" names column "${columnName}", which doesn't exist in ${schema.name}.${table.name} (columns: ${
+            table.columns.map((column) => column.name).join(", ")
+          })`,
+        );
+      }
+      resolved.set(`${schema.name}.${table.name}.${columnName}`, override);
+    }
+  }
+
+  for (const [key, annotated] of annotationOverrides(schemas)) {
+    const override = resolved.get(key);
+    resolved.set(key, {
+      ...override,
+      type: override?.type ?? annotated.type,
+      skip: override?.skip ?? annotated.skip,
+    });
+  }
+
+  return resolved;
+}
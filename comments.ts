@@ -0,0 +1,55 @@
+// COMMENT ON TABLE/COLUMN text: documentation for the generated code, and
+// annotations that stand in for entries in mappings.json
+
+export type CommentAnnotations = {
+  // @rust-type <type>: Rust type replacing the mapped type
+  rustType?: string;
+  // @skip: leave the table or column out
+  skip: boolean;
+};
+
+export type ParsedComment = {
+  // The comment without annotation lines, null when nothing else is left
+  doc: string | null;
+  annotations: CommentAnnotations;
+};
+
+// An annotation on a line of its own. Other lines starting with @ are text,
+// including @skip followed by more words, e.g. "@skip this is deprecated".
+const ANNOTATION = /^@(?:(skip)|(rust-type)(?![\w-])\s*(.*))$/;
+
+// Split a comment into its text and annotations. Malformed annotations are
+// thrown as errors prefixed with where, e.g. "Comment on column users.email".
+export function parseComment(
+  comment: string | null | undefined,
+  where = "Comment",
+): ParsedComment {
+  const annotations: CommentAnnotations = { skip: false };
+  const lines: string[] = [];
+
+  for (const line of (comment ?? "").replace(/\r\n?/g, "\n").split("\n")) {
+    const match = line.trim().match(ANNOTATION);
+    if (!match) {
+      lines.push(line.trimEnd());
+      continue;
+    }
+
+    const [, skip, , argument] = match;
+    if (skip) {
+      annotations.skip = true;
+    } else {
+      if (!argument) {
+        throw new Error(
+          `${where}: @rust-type needs a type, e.g. @rust-type rust_decimal::Decimal`,
+        );
+      }
+      annotations.rustType = argument;
+    }
+  }
+
+  // Blank lines left around the text by removed annotations
+  while (lines.length > 0 && !lines[0]) lines.shift();
+  while (lines.length > 0 && !lines[lines.length - 1]) lines.pop();
+
+  return { doc: lines.length > 0 ? lines.join("\n") : null, annotations };
+}
@@ -0,0 +1,332 @@
+// Versioned configuration file (mappings.json): validation against
+// mappings.schema.json and migration of older layouts
+
+import type { ColumnOverrideMappings } from "./column_overrides.ts";
+import {
+  formatLocation,
+  type JsonPath,
+  parseJsonSource,
+} from "./json_source.ts";
+import type { LintRuleId, LintSeverity } from "./schema_lint.ts";
+import schema from "./mappings.schema.json" with { type: "json" };
+
+// Bump when the layout changes, adding a migration from the previous version
+export const CONFIG_VERSION = 3;
+
+export type Config = {
+  // Path or URL of mappings.schema.json, for editor support
+  $schema?: string;
+  version: number;
+  // Type maps keyed by target, overriding the target's built-in map. The
+  // "diesel" entry maps PostgreSQL types to diesel::sql_types.
+  typeMaps?: Record<string, Record<string, string>>;
+  specialCases?: Record<string, string>;
+  // Relation filters, combined with --include/--exclude
+  include?: string[];
+  exclude?: string[];
+  // Per-column type, name and attribute overrides (Rust and Diesel only)
+  columns?: ColumnOverrideMappings;
+  // Severities of the lint command's rules, overriding their defaults
+  lint?: Partial<Record<LintRuleId, LintSeverity>>;
+};
+
+// A loaded configuration and the migrations applied to it
+export type LoadedConfig = {
+  config: Config;
+  // Version the file was written in, when older than CONFIG_VERSION
+  migratedFrom: number | null;
+  // What to change in the file to bring it up to date
+  migrationSteps: string[];
+};
+
+// The subset of JSON Schema used by mappings.schema.json
+type JsonSchema = {
+  type?: "object" | "array" | "string" | "boolean";
+  enum?: unknown[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  propertyNames?: JsonSchema;
+  items?: JsonSchema;
+  pattern?: string;
+  oneOf?: JsonSchema[];
+  $ref?: string;
+  // Replaces the generic message when a pattern or oneOf doesn't match
+  errorMessage?: string;
+  definitions?: Record<string, JsonSchema>;
+};
+
+export const CONFIG_SCHEMA = schema as JsonSchema;
+
+type Migration = {
+  // Instruction for updating the file by hand
+  step: string;
+  migrate(config: Record<string, unknown>): Record<string, unknown>;
+};
+
+// The Rust typeMap older versions wrote into new files. Left in a file, these
+// entries would override the built-in map, e.g. keep numeric as f64.
+const WRITTEN_RUST_DEFAULTS: Record<string, string> = {
+  "int2": "i16",
+  "int4": "i32",
+  "int8": "i64",
+  "float4": "f32",
+  "float8": "f64",
+  "numeric": "f64",
+  "bool": "bool",
+  "varchar": "String",
+  "char": "String",
+  "bpchar": "String",
+  "text": "String",
+  "uuid": "uuid::Uuid",
+  "date": "chrono::NaiveDate",
+  "timestamp": "chrono::NaiveDateTime",
+  "timestamptz": "chrono::DateTime<chrono::Utc>",
+  "json": "serde_json::Value",
+  "jsonb": "serde_json::Value",
+};
+
+// Migrations keyed by the version they upgrade from
+const MIGRATIONS: Record<number, Migration> = {
+  1: {
+    step: 'move "typeMap" to "typeMaps.rust"',
+    migrate: ({ typeMap, ...config }) => ({
+      ...config,
+      version: 2,
+      typeMaps: typeMap === undefined ? config.typeMaps : {
+        ...config.typeMaps as Record<string, unknown>,
+        rust: typeMap,
+      },
+    }),
+  },
+  2: {
+    step:
+      'remove the "typeMaps.rust" entries older versions wrote as defaults, such as "numeric": "f64" and "char": "String", so that the built-in types and the --types and --decimal presets apply',
+    migrate: (config) => {
+      const typeMaps = config.typeMaps as
+        | Record<string, Record<string, string>>
+        | undefined;
+      if (typeMaps?.rust === undefined) return { ...config, version: 3 };
+      return {
+        ...config,
+        version: 3,
+        typeMaps: {
+          ...typeMaps,
+          rust: Object.fromEntries(
+            Object.entries(typeMaps.rust).filter(([key, type]) =>
+              WRITTEN_RUST_DEFAULTS[key] !== type
+            ),
+          ),
+        },
+      };
+    },
+  },
+};
+
+// Configuration written when no file exists yet
+export function defaultConfig(): Config {
+  return {
+    version: CONFIG_VERSION,
+    typeMaps: { rust: {} },
+    specialCases: {
+      // For example: "some_table_name": "CustomStructName"
+    },
+  };
+}
+
+// Parse, validate and migrate configuration JSON. Every problem is reported
+// as "file:line:column: message", one per line.
+export function parseConfig(text: string, file: string): LoadedConfig {
+  const source = parseJsonSource(text, file);
+  const raw = source.value as Record<string, unknown>;
+  const problems: ConfigProblem[] = [];
+
+  // A file from a newer release would fail validation in confusing ways
+  if (typeof raw?.version === "number" && raw.version > CONFIG_VERSION) {
+    problems.push({
+      path: ["version"],
+      key: false,
+      message:
+        `${raw.version} is newer than this release supports (up to ${CONFIG_VERSION})`,
+    });
+  } else {
+    validate(raw, CONFIG_SCHEMA, [], problems);
+  }
+
+  if (problems.length === 0 && (raw.version ?? 1) !== 1 && "typeMap" in raw) {
+    problems.push({
+      path: ["typeMap"],
+      key: true,
+      message: `was replaced by "typeMaps.rust" in config version 2`,
+    });
+  }
+  if (problems.length > 0) {
+    throw new Error(
+      problems.map((problem) =>
+        `${formatLocation(file, source.locate(problem.path, problem.key))}: ${
+          describePath(problem.path)
+        } ${problem.message}`
+      ).join("\n"),
+    );
+  }
+
+  // Files from before the version field use the version 1 layout
+  const version = (raw.version as number | undefined) ?? 1;
+  let config = raw;
+  const migrationSteps: string[] = [];
+  for (let from = version; from < CONFIG_VERSION; from++) {
+    config = MIGRATIONS[from].migrate(config);
+    migrationSteps.push(MIGRATIONS[from].step);
+  }
+  return {
+    config: config as Config,
+    migratedFrom: version < CONFIG_VERSION ? version : null,
+    migrationSteps,
+  };
+}
+
+// Serialize a configuration the way it's written to disk
+export function serializeConfig(config: Config): string {
+  return JSON.stringify(config, null, 2) + "\n";
+}
+
+export async function readConfig(path: string): Promise<LoadedConfig> {
+  return parseConfig(await Deno.readTextFile(path), path);
+}
+
+// Write a new configuration file, failing if one already exists
+export async function writeNewConfig(
+  path: string,
+  config: Config,
+): Promise<void> {
+  await Deno.writeTextFile(path, serializeConfig(config), { createNew: true });
+}
+
+type ConfigProblem = {
+  path: JsonPath;
+  // Whether the problem is with the key at path rather than its value
+  key: boolean;
+  message: string;
+};
+
+// Name a value for error messages, e.g. columns["users.email"].rename
+function describePath(path: JsonPath): string {
+  if (path.length === 0) return "configuration";
+  return path.map((part, index) => {
+    if (typeof part === "number") return `[${part}]`;
+    if (!/^[A-Za-z_$][A-Za-z0-9_$]*$/.test(part)) {
+      return `[${JSON.stringify(part)}]`;
+    }
+    return index === 0 ? part : `.${part}`;
+  }).join("");
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const TYPE_NAMES: Record<string, string> = {
+  object: "an object",
+  array: "an array",
+  string: "a string",
+  boolean: "true or false",
+};
+
+// Validate a value against a schema, collecting every problem
+function validate(
+  value: unknown,
+  schema: JsonSchema,
+  path: JsonPath,
+  problems: ConfigProblem[],
+): void {
+  if (schema.$ref) {
+    const name = schema.$ref.replace("#/definitions/", "");
+    schema = CONFIG_SCHEMA.definitions![name];
+  }
+
+  if (schema.oneOf) {
+    const branch = schema.oneOf.find((option) => option.type === typeOf(value));
+    if (!branch) {
+      problems.push({
+        path,
+        key: false,
+        message: schema.errorMessage ??
+          `must be ${
+            schema.oneOf.map((option) => TYPE_NAMES[option.type!]).join(" or ")
+          }`,
+      });
+      return;
+    }
+    validate(value, branch, path, problems);
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    problems.push({
+      path,
+      key: false,
+      message: `must be one of ${
+        schema.enum.map((option) => JSON.stringify(option)).join(", ")
+      }`,
+    });
+    return;
+  }
+
+  if (schema.type && typeOf(value) !== schema.type) {
+    problems.push({
+      path,
+      key: false,
+      message: `must be ${TYPE_NAMES[schema.type]}`,
+    });
+    return;
+  }
+
+  if (
+    typeof value === "string" && schema.pattern &&
+    !new RegExp(schema.pattern).test(value)
+  ) {
+    problems.push({
+      path,
+      key: false,
+      message: schema.errorMessage ?? `must match ${schema.pattern}`,
+    });
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) =>
+      validate(item, schema.items!, [...path, index], problems)
+    );
+  }
+
+  if (typeOf(value) === "object") {
+    for (const [key, child] of Object.entries(value as object)) {
+      const pattern = schema.propertyNames?.pattern;
+      if (pattern && !new RegExp(pattern).test(key)) {
+        problems.push({
+          path: [...path, key],
+          key: true,
+          message: schema.propertyNames!.errorMessage ??
+            `must match ${pattern}`,
+        });
+        continue;
+      }
+
+      const propertySchema = schema.properties?.[key] ??
+        (typeof schema.additionalProperties === "object"
+          ? schema.additionalProperties
+          : undefined);
+      if (propertySchema) {
+        validate(child, propertySchema, [...path, key], problems);
+      } else if (schema.additionalProperties === false) {
+        problems.push({
+          path: [...path, key],
+          key: true,
+          message: `is not a known key (expected ${
+            Object.keys(schema.properties ?? {}).join(", ")
+          })`,
+        });
+      }
+    }
+  }
+}
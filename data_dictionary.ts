@@ -0,0 +1,182 @@
+// Data dictionary contents shared by the Markdown and HTML targets: what to
+// document for each schema, independent of the output format
+
+import { parseComment } from "./comments.ts";
+import type {
+  ColumnInfo,
+  ConstraintInfo,
+  SchemaModel,
+  TableModel,
+} from "./introspect.ts";
+
+// A table cell. Code cells hold names, types and SQL.
+export type DictionaryCell = { text: string; code?: boolean };
+
+// A documented table, view, composite type or enum
+export type DictionaryEntry = {
+  // Qualified name, e.g. "public.users"
+  name: string;
+  // "Table", "View", "Materialized view", "Composite type" or "Enum"
+  kind: string;
+  // COMMENT ON text without annotations
+  doc: string | null;
+  header: string[];
+  rows: DictionaryCell[][];
+  // Keys, indexes and references, each a titled list
+  lists: { title: string; items: string[] }[];
+};
+
+export type DictionarySchema = {
+  name: string;
+  entries: DictionaryEntry[];
+};
+
+const RELATION_KINDS = {
+  table: "Table",
+  view: "View",
+  materialized_view: "Materialized view",
+};
+
+const COLUMN_HEADER = [
+  "Column",
+  "Type",
+  "Nullable",
+  "Default",
+  "Key",
+  "Description",
+];
+
+// Default, identity or generation expression of a column
+function columnDefault(column: ColumnInfo): DictionaryCell {
+  if (column.isGenerated) {
+    return { text: `generated: ${column.defaultValue}` };
+  }
+  if (column.identity) {
+    return { text: `identity ${column.identity.replace("_", " ")}` };
+  }
+  return { text: column.defaultValue ?? "", code: !!column.defaultValue };
+}
+
+// PK, FK and UQ markers for the constraints a column is part of
+function columnKeys(table: TableModel | null, column: ColumnInfo): string {
+  const keys = new Set<string>();
+  for (const constraint of table?.constraints ?? []) {
+    if (!constraint.columns.includes(column.name)) continue;
+    keys.add(
+      { primary_key: "PK", foreign_key: "FK", unique: "UQ" }[
+        constraint.type
+      ],
+    );
+  }
+  return [...keys].join(", ");
+}
+
+function columnRows(
+  table: TableModel | null,
+  columns: ColumnInfo[],
+): DictionaryCell[][] {
+  return columns.map((column) => [
+    { text: column.name, code: true },
+    { text: column.formattedType, code: true },
+    { text: column.isNullable ? "yes" : "no" },
+    columnDefault(column),
+    { text: columnKeys(table, column) },
+    { text: parseComment(column.comment).doc ?? "" },
+  ]);
+}
+
+function constraintColumns(constraint: ConstraintInfo): string {
+  return `(${constraint.columns.join(", ")})`;
+}
+
+// Keys, indexes and incoming foreign keys of a table
+function tableLists(
+  schemas: SchemaModel[],
+  schema: SchemaModel,
+  table: TableModel,
+): DictionaryEntry["lists"] {
+  const ofType = (type: ConstraintInfo["type"]) =>
+    table.constraints.filter((constraint) => constraint.type === type);
+
+  const foreignKeys = ofType("foreign_key").map((constraint) => {
+    const { schema, table, columns } = constraint.references!;
+    return `${constraint.name}: ${
+      constraintColumns(constraint)
+    } → ${schema}.${table} (${columns.join(", ")})`;
+  });
+
+  const referencedBy = schemas.flatMap((other) =>
+    other.tables.flatMap((referencing) =>
+      referencing.constraints
+        .filter((constraint) =>
+          constraint.references?.schema === schema.name &&
+          constraint.references.table === table.name
+        )
+        .map((constraint) =>
+          `${other.name}.${referencing.name} ${
+            constraintColumns(constraint)
+          } via ${constraint.name}`
+        )
+    )
+  );
+
+  // "CREATE UNIQUE INDEX name ON table USING btree (a, b)" → "btree (a, b)"
+  const indexes = (table.indexes ?? []).map((index) => {
+    const method = index.definition.replace(/^.*? USING /, "");
+    return `${index.name}: ${index.unique ? "unique " : ""}${method}`;
+  });
+
+  return [
+    {
+      title: "Primary key",
+      items: ofType("primary_key").map((constraint) =>
+        `${constraint.name}: ${constraintColumns(constraint)}`
+      ),
+    },
+    { title: "Foreign keys", items: foreignKeys },
+    {
+      title: "Unique constraints",
+      items: ofType("unique").map((constraint) =>
+        `${constraint.name}: ${constraintColumns(constraint)}`
+      ),
+    },
+    { title: "Indexes", items: indexes },
+    { title: "Referenced by", items: referencedBy },
+  ].filter((list) => list.items.length > 0);
+}
+
+// Everything the data dictionary documents, per schema: enums, composite
+// types, then tables and views
+export function dataDictionary(schemas: SchemaModel[]): DictionarySchema[] {
+  return schemas.map((schema) => ({
+    name: schema.name,
+    entries: [
+      ...schema.enums.map((enumInfo) => ({
+        name: `${schema.name}.${enumInfo.name}`,
+        kind: "Enum",
+        doc: null,
+        header: ["Value"],
+        rows: enumInfo.variants.map((variant) => [
+          { text: variant, code: true },
+        ]),
+        lists: [],
+      })),
+      ...schema.compositeTypes.map((compositeType) => ({
+        name: `${schema.name}.${compositeType.name}`,
+        kind: "Composite type",
+        doc: null,
+        header: COLUMN_HEADER,
+        rows: columnRows(null, compositeType.columns),
+        lists: [],
+      })),
+      ...schema.tables.map((table) => ({
+        name: `${schema.name}.${table.name}`,
+        kind: RELATION_KINDS[table.kind],
+        doc: parseComment(table.comment).doc,
+        header: COLUMN_HEADER,
+        rows: columnRows(table, table.columns),
+        lists: tableLists(schemas, schema, table),
+      })),
+    ],
+  }));
+}
@@ -0,0 +1,604 @@
+// Diesel schema generation: table! macros, joinable! declarations from
+// foreign keys, Queryable/Selectable structs and, with --write-structs,
+// Insertable/AsChangeset structs
+
+import type { ColumnOverride } from "./column_overrides.ts";
+import {
+  buildUserTypeMap,
+  columnDocComment,
+  type Emitter,
+  type EmitterOptions,
+  enumVariants,
+  indent,
+  insertColumns,
+  renderRustImports,
+  type RustImport,
+  tableDocComment,
+  uniqueRustNames,
+  updateColumns,
+} from "./emitter.ts";
+import type { ColumnInfo, SchemaModel, TableModel } from "./introspect.ts";
+import {
+  toRustFieldName,
+  toRustIdentifier,
+  toRustModuleName,
+  toRustStructName,
+} from "./naming.ts";
+import { referenceDoc } from "./relations.ts";
+import {
+  DEFAULT_RUST_PRESETS,
+  getRustType,
+  mapColumnType,
+  rustTypeMap,
+  type TypeSyntax,
+} from "./type_map.ts";
+
+// Names the generated code uses unqualified: the derives from Diesel's prelude
+// and Serde
+const DIESEL_IMPORTS: RustImport[] = [
+  {
+    path: "diesel::prelude::*",
+    names: ["Queryable", "Selectable", "Insertable", "AsChangeset"],
+  },
+  {
+    path: "serde::{Deserialize, Serialize}",
+    names: ["Deserialize", "Serialize"],
+  },
+];
+
+// Default pg_type to diesel::sql_types mapping. Types without an entry get a
+// custom SqlType in the schema's sql_types module, like diesel print-schema.
+export const DEFAULT_DIESEL_SQL_TYPE_MAP: Record<string, string> = {
+  "int2": "Int2",
+  "int4": "Int4",
+  "int8": "Int8",
+  "float4": "Float4",
+  "float8": "Float8",
+  "numeric": "Numeric",
+  "bool": "Bool",
+  "varchar": "Varchar",
+  "char": "CChar",
+  "bpchar": "Bpchar",
+  "text": "Text",
+  "uuid": "Uuid",
+  "date": "Date",
+  "time": "Time",
+  "timestamp": "Timestamp",
+  "timestamptz": "Timestamptz",
+  "interval": "Interval",
+  "json": "Json",
+  "jsonb": "Jsonb",
+  "bytea": "Bytea",
+  "inet": "Inet",
+  "cidr": "Cidr",
+  "macaddr": "MacAddr",
+  "money": "Money",
+  "oid": "Oid",
+  "int4range": "Range<Int4>",
+  "int8range": "Range<Int8>",
+  "numrange": "Range<Numeric>",
+  "daterange": "Range<Date>",
+  "tsrange": "Range<Timestamp>",
+  "tstzrange": "Range<Timestamptz>",
+};
+
+export const DIESEL_SQL_TYPE_SYNTAX: TypeSyntax = {
+  array: (elementType) => `Array<${elementType}>`,
+  nullable: (type) => `Nullable<${type}>`,
+  fallback: "Text",
+};
+
+// A type with no diesel::sql_types equivalent, declared in sql_types
+type CustomSqlType = {
+  schema: string;
+  name: string;
+  rustName: string;
+};
+
+// Identifier of a table in table!. Keywords get an underscore suffix, as
+// with diesel print-schema, since table! doesn't take raw identifiers.
+function tableIdent(table: TableModel): string {
+  return toRustIdentifier(toRustFieldName(table.name), false);
+}
+
+// Identifiers of the columns of a table in table! and of the matching struct
+// fields, keyed by column name. Diesel doesn't allow a column to share its
+// table's name.
+function columnIdents(
+  schema: SchemaModel,
+  table: TableModel,
+  options: EmitterOptions,
+): Map<string, string> {
+  return uniqueRustNames(
+    table.columns.map((column) => column.name),
+    (name) => {
+      const ident = toRustIdentifier(toRustFieldName(name), false);
+      return ident === tableIdent(table) ? `${ident}_` : ident;
+    },
+    `Columns of ${schema.name}.${table.name}`,
+    options,
+  );
+}
+
+// Primary key columns for table!. Diesel requires one, so tables and views
+// without a primary key fall back to "id" or their first column.
+function primaryKey(table: TableModel): string[] {
+  const constraint = table.constraints.find((c) => c.type === "primary_key");
+  if (constraint) return constraint.columns;
+
+  const id = table.columns.find((column) => column.name === "id");
+  return [id ? id.name : table.columns[0]?.name].filter(Boolean);
+}
+
+// Rust byte string literal, escaping anything that isn't printable ASCII
+function toByteString(text: string): string {
+  let literal = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    if (byte === 0x22 || byte === 0x5c) {
+      literal += `\\${String.fromCharCode(byte)}`;
+    } else if (byte >= 0x20 && byte < 0x7f) {
+      literal += String.fromCharCode(byte);
+    } else {
+      literal += `\\x${byte.toString(16).padStart(2, "0")}`;
+    }
+  }
+  return `b"${literal}"`;
+}
+
+// Enums and composite types of every rendered schema, as "schema.name"
+function userTypeKeys(schemas: SchemaModel[]): Set<string> {
+  return new Set(
+    schemas.flatMap((schema) =>
+      [
+        ...schema.enums.map((enumInfo) => enumInfo.name),
+        ...schema.compositeTypes.map((compositeType) => compositeType.name),
+      ].map((name) => `${schema.name}.${name}`)
+    ),
+  );
+}
+
+// Collect the custom SQL types a schema declares: its enums and composite
+// types, plus unmapped types used by its tables. User types of other schemas
+// are declared by their own schema.
+function collectCustomSqlTypes(
+  schema: SchemaModel,
+  sqlTypeMap: Record<string, string>,
+  userTypes: Set<string>,
+): CustomSqlType[] {
+  const customTypes = new Map<string, CustomSqlType>();
+  const add = (typeSchema: string, name: string) => {
+    const key = `${typeSchema}.${name}`;
+    if (sqlTypeMap[key] || sqlTypeMap[name] || customTypes.has(key)) return;
+    if (typeSchema !== schema.name && userTypes.has(key)) return;
+    customTypes.set(key, {
+      schema: typeSchema,
+      name,
+      rustName: toRustStructName(name),
+    });
+  };
+
+  for (const enumInfo of schema.enums) add(schema.name, enumInfo.name);
+  for (const compositeType of schema.compositeTypes) {
+    add(schema.name, compositeType.name);
+  }
+  for (const table of schema.tables) {
+    for (const column of table.columns) {
+      if (column.elementType) {
+        add(column.elementSchema as string, column.elementType);
+      } else {
+        add(column.udtSchema, column.udtName);
+      }
+    }
+  }
+
+  return [...customTypes.values()];
+}
+
+// Render an enum with the ToSql/FromSql impls Diesel needs to map it to its
+// custom SQL type
+function renderEnum(
+  name: string,
+  variants: Array<{ label: string; variant: string }>,
+  sqlType: string,
+): string {
+  let output =
+    `#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, diesel::AsExpression, diesel::FromSqlRow)]\n`;
+  output += `#[diesel(sql_type = ${sqlType})]\n`;
+  output += `pub enum ${name} {\n`;
+  for (const { label, variant } of variants) {
+    if (variant !== label) {
+      output += `    #[serde(rename = "${label}")]\n`;
+    }
+    output += `    ${variant},\n`;
+  }
+  output += `}\n\n`;
+
+  output +=
+    `impl diesel::serialize::ToSql<${sqlType}, diesel::pg::Pg> for ${name} {\n`;
+  output +=
+    `    fn to_sql<'b>(&'b self, out: &mut diesel::serialize::Output<'b, '_, diesel::pg::Pg>) -> diesel::serialize::Result {\n`;
+  output += `        let label: &[u8] = match self {\n`;
+  for (const { label, variant } of variants) {
+    output += `            ${name}::${variant} => ${toByteString(label)},\n`;
+  }
+  output += `        };\n`;
+  output += `        std::io::Write::write_all(out, label)?;\n`;
+  output += `        Ok(diesel::serialize::IsNull::No)\n`;
+  output += `    }\n`;
+  output += `}\n\n`;
+
+  output +=
+    `impl diesel::deserialize::FromSql<${sqlType}, diesel::pg::Pg> for ${name} {\n`;
+  output +=
+    `    fn from_sql(value: diesel::pg::PgValue<'_>) -> diesel::deserialize::Result<Self> {\n`;
+  output += `        match value.as_bytes() {\n`;
+  for (const { label, variant } of variants) {
+    output += `            ${
+      toByteString(label)
+    } => Ok(${name}::${variant}),\n`;
+  }
+  output +=
+    `            other => Err(format!("Unrecognized enum variant: {}", String::from_utf8_lossy(other)).into()),\n`;
+  output += `        }\n`;
+  output += `    }\n`;
+  output += `}\n\n`;
+
+  return output;
+}
+
+// Render a struct field with its doc comments. Fields are named like their
+// table! column, ident, unless renamed in mappings.json.
+function renderField(
+  ident: string,
+  column: ColumnInfo,
+  rustType: string,
+  reference: string | null,
+  override?: ColumnOverride,
+  attributes: string[] = [],
+): string {
+  const fieldName = override?.rename
+    ? toRustIdentifier(override.rename)
+    : ident;
+
+  let output = columnDocComment(column, reference, "    ");
+  if (fieldName !== ident) {
+    output += `    #[diesel(column_name = ${ident})]\n`;
+  }
+  for (const attribute of attributes) {
+    output += `    #[${attribute}]\n`;
+  }
+  output += `    pub ${fieldName}: ${rustType},\n`;
+  return output;
+}
+
+// Render the Insertable and AsChangeset structs of a table. Diesel inserts
+// DEFAULT for None fields, so defaulted columns are optional on insert.
+function renderWriteStructs(
+  table: TableModel,
+  name: string,
+  fieldType: (column: ColumnInfo) => string,
+  field: (column: ColumnInfo, rustType: string) => string,
+): string {
+  let output = `#[derive(Debug, Serialize, Deserialize, Insertable)]\n`;
+  output += `#[diesel(table_name = ${tableIdent(table)})]\n`;
+  output += `pub struct New${name} {\n`;
+  for (const { column, optional } of insertColumns(table)) {
+    const rustType = fieldType(column);
+    output += field(
+      column,
+      optional && !column.isNullable ? `Option<${rustType}>` : rustType,
+    );
+  }
+  output += `}\n\n`;
+
+  // Option<Option<T>> lets nullable columns be set to NULL
+  output += `#[derive(Debug, Default, Serialize, Deserialize, AsChangeset)]\n`;
+  output += `#[diesel(table_name = ${tableIdent(table)})]\n`;
+  output += `pub struct ${name}Patch {\n`;
+  for (const column of updateColumns(table)) {
+    output += field(column, `Option<${fieldType(column)}>`);
+  }
+  output += `}\n\n`;
+
+  return output;
+}
+
+// Render the Diesel schema and structs for the given schemas
+export function renderDiesel(
+  schemas: SchemaModel[],
+  options: EmitterOptions,
+): string {
+  const specialCases = options.specialCases || {};
+  const structName = (name: string) => toRustStructName(name, specialCases);
+  const sqlTypeMap = options.sqlTypeMap || DEFAULT_DIESEL_SQL_TYPE_MAP;
+
+  // With several schemas each one becomes its own module
+  const useModules = schemas.length > 1;
+  const userTypes = userTypeKeys(schemas);
+  const customTypesBySchema = new Map(
+    schemas.map((schema) => [
+      schema.name,
+      collectCustomSqlTypes(schema, sqlTypeMap, userTypes),
+    ]),
+  );
+
+  let body = "";
+
+  for (const schema of schemas) {
+    let schemaOutput = "";
+    const customTypes = customTypesBySchema.get(schema.name) || [];
+
+    // Rust types for struct fields, as in the Rust target
+    const typeMap = buildUserTypeMap(
+      schemas,
+      schema,
+      options,
+      (schemaName, typeName) =>
+        `super::${toRustModuleName(schemaName)}::${typeName}`,
+    );
+
+    // Custom SQL types, as seen from inside a table! module
+    const customSqlTypeMap: Record<string, string> = {};
+    for (const customType of customTypes) {
+      customSqlTypeMap[`${customType.schema}.${customType.name}`] =
+        customType.rustName;
+    }
+    for (const key of userTypes) {
+      const [typeSchema, typeName] = key.split(".");
+      if (typeSchema === schema.name || customSqlTypeMap[key]) continue;
+      customSqlTypeMap[key] = `super::super::${
+        toRustModuleName(typeSchema)
+      }::sql_types::${toRustStructName(typeName)}`;
+    }
+    const sqlTypes = { ...customSqlTypeMap, ...sqlTypeMap };
+
+    if (customTypes.length > 0) {
+      schemaOutput += `pub mod sql_types {\n`;
+      for (const customType of customTypes) {
+        const schemaArg = customType.schema === "public"
+          ? ""
+          : `, schema = "${customType.schema}"`;
+        schemaOutput +=
+          `    #[derive(diesel::query_builder::QueryId, Debug, diesel::sql_types::SqlType)]\n`;
+        schemaOutput +=
+          `    #[diesel(postgres_type(name = "${customType.name}"${schemaArg}))]\n`;
+        schemaOutput += `    pub struct ${customType.rustName};\n\n`;
+      }
+      schemaOutput = schemaOutput.trimEnd() + `\n}\n\n`;
+    }
+
+    // Enums map to their custom SQL type
+    for (const enumInfo of schema.enums) {
+      const variants = enumVariants(enumInfo, options);
+      schemaOutput += renderEnum(
+        structName(enumInfo.name),
+        enumInfo.variants.map((label) => ({
+          label,
+          variant: variants.get(label) as string,
+        })),
+        `sql_types::${toRustStructName(enumInfo.name)}`,
+      );
+    }
+
+    // Composite types are plain structs; Diesel has no derive for them
+    for (const compositeType of schema.compositeTypes) {
+      schemaOutput += `#[derive(Debug, Clone, Serialize, Deserialize)]\n`;
+      schemaOutput += `pub struct ${structName(compositeType.name)} {\n`;
+      const fields = uniqueRustNames(
+        compositeType.columns.map((column) => column.name),
+        (name) => toRustIdentifier(toRustFieldName(name)),
+        `Columns of composite type ${schema.name}.${compositeType.name}`,
+        options,
+      );
+      for (const column of compositeType.columns) {
+        schemaOutput += columnDocComment(column, null, "    ");
+        schemaOutput += `    pub ${fields.get(column.name)}: ${
+          getRustType(column, typeMap, options.nullableArrayElements)
+        },\n`;
+      }
+      schemaOutput += `}\n\n`;
+    }
+
+    // Column identifiers, shared by table!, joinable! and the structs
+    const identsByTable = new Map(
+      schema.tables.map((table) => [
+        table,
+        columnIdents(schema, table, options),
+      ]),
+    );
+
+    // table! declarations
+    for (const table of schema.tables) {
+      const ident = tableIdent(table);
+      const qualifiedIdent = schema.name === "public"
+        ? ident
+        : `${schema.name}.${ident}`;
+      const columnIdents = identsByTable.get(table) as Map<string, string>;
+      const keyIdents = primaryKey(table).map((name) =>
+        columnIdents.get(name) || toRustFieldName(name)
+      );
+
+      // Custom SQL types used by this table
+      const usedCustomTypes = new Set<string>();
+      const columnTypes = table.columns.map((column) => {
+        const sqlType = mapColumnType(
+          column,
+          sqlTypes,
+          DIESEL_SQL_TYPE_SYNTAX,
+          options.nullableArrayElements,
+        );
+        for (const customName of Object.values(customSqlTypeMap)) {
+          if (new RegExp(`(^|<)${customName}(>|$)`).test(sqlType)) {
+            usedCustomTypes.add(customName);
+          }
+        }
+        return sqlType;
+      });
+
+      schemaOutput += `diesel::table! {\n`;
+      if (usedCustomTypes.size > 0) {
+        schemaOutput += `    use diesel::sql_types::*;\n`;
+        for (const customName of [...usedCustomTypes].sort()) {
+          schemaOutput += customName.includes("::")
+            ? `    use ${customName};\n`
+            : `    use super::sql_types::${customName};\n`;
+        }
+        schemaOutput += `\n`;
+      }
+      schemaOutput += tableDocComment(table, "    ", table.kind !== "table");
+      if (table.kind !== "table") {
+        schemaOutput += `    /// Read-only ${
+          table.kind === "view" ? "view" : "materialized view"
+        }\n`;
+      }
+      if (ident !== table.name) {
+        schemaOutput += `    #[sql_name = "${table.name}"]\n`;
+      }
+      schemaOutput += `    ${qualifiedIdent} (${keyIdents.join(", ")}) {\n`;
+      table.columns.forEach((column, index) => {
+        const columnName = columnIdents.get(column.name) as string;
+        schemaOutput += columnDocComment(column, null, "        ");
+        if (columnName !== column.name) {
+          schemaOutput += `        #[sql_name = "${column.name}"]\n`;
+        }
+        // Custom types from other schemas are imported by their last segment
+        let sqlType = columnTypes[index];
+        for (const customName of usedCustomTypes) {
+          if (customName.includes("::")) {
+            sqlType = sqlType.replace(
+              customName,
+              customName.split("::").pop() as string,
+            );
+          }
+        }
+        schemaOutput += `        ${columnName} -> ${sqlType},\n`;
+      });
+      schemaOutput += `    }\n}\n\n`;
+    }
+
+    // joinable! for single-column foreign keys referencing the primary key
+    // of another table in this schema. Diesel allows one per table pair, so
+    // pairs with several foreign keys are skipped as print-schema does.
+    const tablesByName = new Map(schema.tables.map((t) => [t.name, t]));
+    const joins = new Map<string, string[]>();
+    for (const table of schema.tables) {
+      for (const constraint of table.constraints) {
+        const references = constraint.references;
+        if (
+          constraint.type !== "foreign_key" || !references ||
+          references.schema !== schema.name || constraint.columns.length !== 1
+        ) {
+          continue;
+        }
+        const parent = tablesByName.get(references.table);
+        if (
+          !parent || parent === table ||
+          primaryKey(parent).join(",") !== references.columns.join(",")
+        ) {
+          continue;
+        }
+
+        const key = `${tableIdent(table)} -> ${tableIdent(parent)}`;
+        const source = identsByTable.get(table)?.get(constraint.columns[0]) ??
+          toRustFieldName(constraint.columns[0]);
+        joins.set(key, [...(joins.get(key) || []), source]);
+      }
+    }
+    for (const [key, sources] of joins) {
+      if (sources.length === 1) {
+        schemaOutput += `diesel::joinable!(${key} (${sources[0]}));\n`;
+      }
+    }
+    if (joins.size > 0) schemaOutput += `\n`;
+
+    if (schema.tables.length > 1) {
+      schemaOutput += `diesel::allow_tables_to_appear_in_same_query!(\n`;
+      for (const table of schema.tables) {
+        schemaOutput += `    ${tableIdent(table)},\n`;
+      }
+      schemaOutput += `);\n\n`;
+    }
+
+    // Queryable/Selectable structs, with fields named like the table! columns
+    for (const table of schema.tables) {
+      schemaOutput += tableDocComment(table, "", false);
+      schemaOutput +=
+        `#[derive(Debug, Serialize, Deserialize, Queryable, Selectable)]\n`;
+      schemaOutput += `#[diesel(table_name = ${tableIdent(table)})]\n`;
+      schemaOutput += `#[diesel(check_for_backend(diesel::pg::Pg))]\n`;
+      schemaOutput += `pub struct ${structName(table.name)} {\n`;
+
+      // Overrides from mappings.json; attributes only apply to this struct
+      const overrideFor = (column: ColumnInfo) =>
+        options.columnOverrides?.get(
+          `${schema.name}.${table.name}.${column.name}`,
+        );
+      // Skipped columns stay in table! but are left out of the structs
+      const structTable = {
+        ...table,
+        columns: table.columns.filter((column) => !overrideFor(column)?.skip),
+      };
+      const fieldType = (column: ColumnInfo) => {
+        const overrideType = overrideFor(column)?.type;
+        if (!overrideType) {
+          return getRustType(column, typeMap, options.nullableArrayElements);
+        }
+        return column.isNullable ? `Option<${overrideType}>` : overrideType;
+      };
+      const idents = identsByTable.get(table) as Map<string, string>;
+      const field = (column: ColumnInfo, rustType: string) =>
+        renderField(
+          idents.get(column.name) as string,
+          column,
+          rustType,
+          referenceDoc(schemas, schema, table, column, specialCases),
+          overrideFor(column),
+        );
+
+      for (const column of structTable.columns) {
+        schemaOutput += renderField(
+          idents.get(column.name) as string,
+          column,
+          fieldType(column),
+          referenceDoc(schemas, schema, table, column, specialCases),
+          overrideFor(column),
+          overrideFor(column)?.attributes,
+        );
+      }
+      schemaOutput += `}\n\n`;
+
+      if (options.writeStructs && table.kind === "table") {
+        schemaOutput += renderWriteStructs(
+          structTable,
+          structName(table.name),
+          fieldType,
+          field,
+        );
+      }
+    }
+
+    if (useModules) {
+      const glob = renderRustImports(schemaOutput, DIESEL_IMPORTS)
+        ? "    use super::*;\n\n"
+        : "";
+      body += `pub mod ${toRustModuleName(schema.name)} {\n${glob}${
+        indent(schemaOutput.trimEnd())
+      }\n}\n\n`;
+    } else {
+      body += schemaOutput;
+    }
+  }
+
+  let output = "// Generated Diesel schema for PostgreSQL database\n\n";
+  const imports = options.noImports
+    ? ""
+    : renderRustImports(body, DIESEL_IMPORTS);
+  if (imports) output += `${imports}\n`;
+  return output + body;
+}
+
+export const dieselEmitter: Emitter = {
+  defaultTypeMap: rustTypeMap(DEFAULT_RUST_PRESETS, "diesel"),
+  defaultFilename: (database) => `${database}_types.rs`,
+  render: renderDiesel,
+};
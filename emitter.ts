@@ -0,0 +1,238 @@
+// Output backends rendering the introspected schema model
+
+import type { ColumnOverride } from "./column_overrides.ts";
+import { parseComment } from "./comments.ts";
+import type {
+  ColumnInfo,
+  EnumInfo,
+  SchemaModel,
+  TableModel,
+} from "./introspect.ts";
+import { toRustStructName, uniqueIdentifiers } from "./naming.ts";
+
+export type EmitterOptions = {
+  // typeMap for the target, from mappings.json
+  typeMap: Record<string, string>;
+  // specialCases from mappings.json
+  specialCases?: Record<string, string>;
+  // Use SQLx attributes instead of Serde (Rust only)
+  sqlx?: boolean;
+  // pg_type to diesel::sql_types mapping (Diesel only)
+  sqlTypeMap?: Record<string, string>;
+  // Also generate New<Table> insert and <Table>Patch update structs (Rust
+  // and Diesel only)
+  writeStructs?: boolean;
+  // Wrap primary keys in newtype IDs used by referencing columns (Rust only)
+  idNewtypes?: boolean;
+  // Array elements are nullable (Vec<Option<T>>) unless their type is a NOT
+  // NULL domain
+  nullableArrayElements?: boolean;
+  // Resolved per-column overrides, keyed by "schema.table.column" (Rust and
+  // Diesel only)
+  columnOverrides?: Map<string, ColumnOverride>;
+  // Leave out use declarations, for files that are include!d (Rust and Diesel
+  // only)
+  noImports?: boolean;
+  // Called for problems that were worked around, such as columns whose field
+  // names collide
+  warn?: (message: string) => void;
+};
+
+export interface Emitter {
+  // Built-in typeMap, overridden by the target's entries in mappings.json
+  defaultTypeMap: Record<string, string>;
+  // Output filename used when neither --output nor --name is given
+  defaultFilename(database: string): string;
+  render(schemas: SchemaModel[], options: EmitterOptions): string;
+  // Render one file per type for --out-dir, keyed by path relative to the
+  // output directory (Rust only)
+  renderFiles?(
+    schemas: SchemaModel[],
+    options: EmitterOptions,
+  ): Map<string, string>;
+}
+
+// Map the enums and composite types of every rendered schema to the name of
+// their generated type, as seen from `schema`. Types from other schemas are
+// referenced through `qualify`. Explicit typeMap entries take precedence.
+export function buildUserTypeMap(
+  schemas: SchemaModel[],
+  schema: SchemaModel,
+  options: EmitterOptions,
+  qualify: (schemaName: string, typeName: string) => string,
+): Record<string, string> {
+  const userTypeMap: Record<string, string> = {};
+
+  for (const typeSchema of schemas) {
+    const typeNames = [
+      ...typeSchema.enums.map((enumInfo) => enumInfo.name),
+      ...typeSchema.compositeTypes.map((compositeType) => compositeType.name),
+    ];
+    for (const typeName of typeNames) {
+      if (options.typeMap[typeName]) continue;
+      const generatedName = toRustStructName(typeName, options.specialCases);
+      userTypeMap[`${typeSchema.name}.${typeName}`] =
+        schemas.length > 1 && typeSchema.name !== schema.name
+          ? qualify(typeSchema.name, generatedName)
+          : generatedName;
+    }
+  }
+
+  return { ...userTypeMap, ...options.typeMap };
+}
+
+// A use declaration for generated Rust code and the names it brings into
+// scope. External types are always written with their full path, so only
+// names used unqualified, like derive macros, need one.
+export type RustImport = { path: string; names: string[] };
+
+// Rust code without comments and with empty string literals, for looking up
+// the names it refers to
+export function stripRustComments(code: string): string {
+  return code
+    .split("\n")
+    .filter((line) => !line.trim().startsWith("//"))
+    .join("\n")
+    .replace(/"(?:[^"\\]|\\.)*"/g, '""');
+}
+
+// Whether stripped Rust code refers to a name unqualified, rather than
+// through a path such as serde::Serialize
+export function refersTo(code: string, name: string): boolean {
+  return new RegExp(`(?<![\\w:])${name}\\b`).test(code);
+}
+
+// The use declarations of the imports whose names the code refers to
+export function renderRustImports(
+  code: string,
+  imports: RustImport[],
+): string {
+  const stripped = stripRustComments(code);
+  return imports
+    .filter((item) => item.names.some((name) => refersTo(stripped, name)))
+    .map((item) => `use ${item.path};\n`)
+    .join("");
+}
+
+// Identifiers for names that share a namespace, such as the fields of a
+// struct, keyed by name. Names whose preferred identifiers collide get a
+// numeric suffix, reported through options.warn.
+export function uniqueRustNames(
+  names: string[],
+  preferred: (name: string) => string,
+  where: string,
+  options: EmitterOptions,
+  separator = "_",
+): Map<string, string> {
+  const { identifiers, collisions } = uniqueIdentifiers(
+    names,
+    preferred,
+    separator,
+  );
+  for (const collision of collisions) {
+    options.warn?.(
+      `${where}: "${collision.name}" and "${collision.keptBy}" both map to ${collision.preferred}, so "${collision.name}" is ${collision.identifier}`,
+    );
+  }
+  return new Map(names.map((name, index) => [name, identifiers[index]]));
+}
+
+// Variant names of an enum, keyed by label
+export function enumVariants(
+  enumInfo: EnumInfo,
+  options: EmitterOptions,
+): Map<string, string> {
+  return uniqueRustNames(
+    enumInfo.variants,
+    (label) => toRustStructName(label),
+    `Variants of enum ${enumInfo.schema}.${enumInfo.name}`,
+    options,
+    "",
+  );
+}
+
+// Indent every non-empty line, for wrapping output in a module or namespace
+export function indent(text: string, prefix = "    "): string {
+  return text
+    .split("\n")
+    .map((line) => line ? `${prefix}${line}` : line)
+    .join("\n");
+}
+
+// Describe a column for doc comments: name, type, nullability and default
+export function describeColumn(column: ColumnInfo): string {
+  let details = column.isNullable ? ", nullable" : "";
+  if (column.isGenerated) {
+    details += `, generated: ${column.defaultValue}`;
+  } else if (column.identity) {
+    details += `, identity ${column.identity.replace("_", " ")}`;
+  } else if (column.defaultValue) {
+    details += `, default: ${column.defaultValue}`;
+  }
+  return `${column.name} - ${column.formattedType}${details}`;
+}
+
+// Render text as /// doc comment lines. Every line of multi-line text gets
+// its own ///, so none of it can end up outside the comment.
+export function docComment(text: string, indent = ""): string {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .map((line) => line ? `${indent}/// ${line}\n` : `${indent}///\n`)
+    .join("");
+}
+
+// Doc comment of a column: the text of its COMMENT, then its name, type and
+// default, and for foreign keys a link to the referenced struct
+export function columnDocComment(
+  column: ColumnInfo,
+  reference: string | null,
+  indent: string,
+): string {
+  const { doc } = parseComment(column.comment);
+  let output = doc ? `${docComment(doc, indent)}${indent}///\n` : "";
+  output += docComment(describeColumn(column), indent);
+  if (reference) output += docComment(reference, indent);
+  return output;
+}
+
+// Doc comment of a table from the text of its COMMENT, followed by an empty
+// line when more doc lines follow. Empty without a comment.
+export function tableDocComment(
+  table: TableModel,
+  indent: string,
+  more: boolean,
+): string {
+  const { doc } = parseComment(table.comment);
+  if (!doc) return "";
+  return docComment(doc, indent) + (more ? `${indent}///\n` : "");
+}
+
+// Whether a column can't be written: GENERATED ALWAYS identity columns and
+// generated columns
+export function isReadOnlyColumn(column: ColumnInfo): boolean {
+  return column.isGenerated || column.identity === "always";
+}
+
+// Whether PostgreSQL fills in a column that is left out of an INSERT
+export function hasDefault(column: ColumnInfo): boolean {
+  return column.defaultValue !== null || column.identity !== null;
+}
+
+// Columns of an insert struct, and whether each one may be left out
+export function insertColumns(
+  table: TableModel,
+): Array<{ column: ColumnInfo; optional: boolean }> {
+  return table.columns
+    .filter((column) => !isReadOnlyColumn(column))
+    .map((column) => ({ column, optional: hasDefault(column) }));
+}
+
+// Columns of an update struct: everything writable except the primary key
+export function updateColumns(table: TableModel): ColumnInfo[] {
+  const primaryKey = table.constraints.find((c) => c.type === "primary_key");
+  return table.columns.filter((column) =>
+    !isReadOnlyColumn(column) && !primaryKey?.columns.includes(column.name)
+  );
+}
@@ -0,0 +1,49 @@
+// Include/exclude filters on schema-qualified relation names
+
+// Compile a filter pattern. Patterns written as /source/flags are regular
+// expressions; anything else is a glob matched against the whole name, where
+// * matches any run of characters and ? a single character.
+export function compilePattern(pattern: string): RegExp {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (regex) {
+    try {
+      return new RegExp(regex[1], regex[2]);
+    } catch (error) {
+      throw new Error(
+        `Invalid filter pattern "${pattern}": ${(error as Error).message}`,
+      );
+    }
+  }
+
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") return ".*";
+      if (char === "?") return ".";
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+// Build a predicate deciding whether a relation is generated. With include
+// patterns a relation must match one of them, and it must match none of the
+// exclude patterns. Names are matched as "schema.relation".
+export function createTableFilter(
+  include: string[],
+  exclude: string[],
+): (schema: string, relation: string) => boolean {
+  const includePatterns = include.map(compilePattern);
+  const excludePatterns = exclude.map(compilePattern);
+
+  return (schema, relation) => {
+    const name = `${schema}.${relation}`;
+    if (
+      includePatterns.length > 0 &&
+      !includePatterns.some((pattern) => pattern.test(name))
+    ) {
+      return false;
+    }
+    return !excludePatterns.some((pattern) => pattern.test(name));
+  };
+}
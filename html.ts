@@ -0,0 +1,91 @@
+// HTML data dictionary generation from the introspected schema model
+
+import {
+  dataDictionary,
+  type DictionaryCell,
+  type DictionaryEntry,
+} from "./data_dictionary.ts";
+import type { Emitter, EmitterOptions } from "./emitter.ts";
+import type { SchemaModel } from "./introspect.ts";
+
+// Escape text for element content and double-quoted attributes
+export function escapeHtml(text: string): string {
+  return text
+    .replaceAll("&", "&amp;")
+    .replaceAll("<", "&lt;")
+    .replaceAll(">", "&gt;")
+    .replaceAll('"', "&quot;");
+}
+
+const STYLE = `
+    body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+    table { border-collapse: collapse; margin-bottom: 1rem; }
+    th, td { border: 1px solid #ccc; padding: 0.25rem 0.5rem; text-align: left; vertical-align: top; }
+    th { background: #f4f4f4; }
+    code { font-size: 0.9em; }
+    .doc { white-space: pre-line; }`;
+
+function htmlCell(cell: DictionaryCell): string {
+  const text = escapeHtml(cell.text);
+  return `<td>${cell.code && text ? `<code>${text}</code>` : text}</td>`;
+}
+
+// Anchor for an entry, so that entries can be linked to
+function entryId(entry: DictionaryEntry): string {
+  return entry.name.replace(/[^A-Za-z0-9_.-]/g, "-");
+}
+
+function renderEntry(entry: DictionaryEntry): string {
+  let output = `  <section id="${escapeHtml(entryId(entry))}">\n`;
+  output += `    <h3>${entry.kind} <code>${
+    escapeHtml(entry.name)
+  }</code></h3>\n`;
+  if (entry.doc) {
+    output += `    <p class="doc">${escapeHtml(entry.doc)}</p>\n`;
+  }
+
+  output += "    <table>\n";
+  output += `      <tr>${
+    entry.header.map((title) => `<th>${title}</th>`).join("")
+  }</tr>\n`;
+  for (const row of entry.rows) {
+    output += `      <tr>${row.map(htmlCell).join("")}</tr>\n`;
+  }
+  output += "    </table>\n";
+
+  for (const list of entry.lists) {
+    output += `    <h4>${list.title}</h4>\n    <ul>\n`;
+    for (const item of list.items) {
+      output += `      <li>${escapeHtml(item)}</li>\n`;
+    }
+    output += "    </ul>\n";
+  }
+  return output + "  </section>\n";
+}
+
+// Render a standalone HTML data dictionary for the given schemas
+export function renderHtml(
+  schemas: SchemaModel[],
+  _options: EmitterOptions,
+): string {
+  let output = "<!-- Generated data dictionary for PostgreSQL database -->\n" +
+    '<!DOCTYPE html>\n<html lang="en">\n<head>\n' +
+    '  <meta charset="utf-8">\n' +
+    "  <title>Data Dictionary</title>\n" +
+    `  <style>${STYLE}\n  </style>\n` +
+    "</head>\n<body>\n  <h1>Data Dictionary</h1>\n";
+
+  for (const schema of dataDictionary(schemas)) {
+    output += `  <h2>Schema <code>${escapeHtml(schema.name)}</code></h2>\n`;
+    if (schema.entries.length === 0) output += "  <p>No tables or types.</p>\n";
+    output += schema.entries.map(renderEntry).join("");
+  }
+
+  return output + "</body>\n</html>\n";
+}
+
+export const htmlEmitter: Emitter = {
+  defaultTypeMap: {},
+  defaultFilename: (database) => `${database}_schema.html`,
+  render: renderHtml,
+};
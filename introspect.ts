@@ -0,0 +1,545 @@
+// Schema introspection against the PostgreSQL system catalogs. Each query
+// covers every requested schema at once, so the number of round trips stays
+// the same however many tables there are.
+
+// Minimal client surface used for introspection, satisfied by the postgres
+// Client and by test doubles
+export interface QueryClient {
+  queryObject<T>(query: string, args?: unknown[]): Promise<{ rows: T[] }>;
+}
+
+// Fetch the user schemas in the database, excluding system schemas
+export const SCHEMAS_QUERY = `
+  SELECT nspname AS schema_name
+  FROM pg_namespace
+  WHERE nspname NOT IN ('pg_catalog', 'information_schema')
+  AND nspname NOT LIKE 'pg_toast%'
+  AND nspname NOT LIKE 'pg_temp_%'
+  ORDER BY nspname
+`;
+
+export async function introspectSchemas(
+  client: QueryClient,
+): Promise<string[]> {
+  const result = await client.queryObject<{ schema_name: string }>(
+    SCHEMAS_QUERY,
+  );
+  return result.rows.map((row) => row.schema_name);
+}
+
+// Kind of relation a struct is generated for
+export type RelationKind = "table" | "view" | "materialized_view";
+
+export type TableInfo = {
+  name: string;
+  kind: RelationKind;
+  // COMMENT ON TABLE/VIEW text. Absent in snapshots from older versions.
+  comment?: string | null;
+};
+
+// Tables (including partitioned tables), views and materialized views.
+// Materialized views aren't listed in information_schema, hence pg_class.
+// Partitions are left out: their parent stands in for them.
+export const TABLES_QUERY = `
+  SELECT
+    n.nspname AS schema_name,
+    c.relname AS table_name,
+    CASE c.relkind
+      WHEN 'v' THEN 'view'
+      WHEN 'm' THEN 'materialized_view'
+      ELSE 'table'
+    END AS kind,
+    obj_description(c.oid, 'pg_class') AS comment
+  FROM pg_class c
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1::text[])
+  AND c.relkind IN ('r', 'p', 'v', 'm')
+  AND NOT c.relispartition
+  ORDER BY n.nspname, c.relname
+`;
+
+// Fetch the tables, views and materialized views in the given schemas, keyed
+// by schema name
+export async function introspectTables(
+  client: QueryClient,
+  schemas: string[],
+): Promise<Map<string, TableInfo[]>> {
+  const result = await client.queryObject<{
+    schema_name: string;
+    table_name: string;
+    kind: RelationKind;
+    comment: string | null;
+  }>(
+    TABLES_QUERY,
+    [schemas],
+  );
+
+  const tables = new Map<string, TableInfo[]>();
+  for (const row of result.rows) {
+    const schemaTables = tables.get(row.schema_name) || [];
+    schemaTables.push({
+      name: row.table_name,
+      kind: row.kind,
+      comment: row.comment,
+    });
+    tables.set(row.schema_name, schemaTables);
+  }
+  return tables;
+}
+
+// Standalone composite types (CREATE TYPE ... AS (...)), excluding the row
+// types PostgreSQL creates implicitly for every table
+export const COMPOSITE_TYPES_QUERY = `
+  SELECT n.nspname AS schema_name, t.typname AS type_name
+  FROM pg_type t
+  JOIN pg_class c ON c.oid = t.typrelid
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  WHERE n.nspname = ANY($1::text[])
+  AND t.typtype = 'c'
+  AND c.relkind = 'c'
+  ORDER BY n.nspname, t.typname
+`;
+
+// Fetch the names of the composite types in the given schemas, keyed by
+// schema name. Their attributes are read by introspectColumns like those of
+// any other relation.
+export async function introspectCompositeTypes(
+  client: QueryClient,
+  schemas: string[],
+): Promise<Map<string, string[]>> {
+  const result = await client.queryObject<
+    { schema_name: string; type_name: string }
+  >(
+    COMPOSITE_TYPES_QUERY,
+    [schemas],
+  );
+
+  const compositeTypes = new Map<string, string[]>();
+  for (const row of result.rows) {
+    const typeNames = compositeTypes.get(row.schema_name) || [];
+    typeNames.push(row.type_name);
+    compositeTypes.set(row.schema_name, typeNames);
+  }
+  return compositeTypes;
+}
+
+// Column details resolved from pg_attribute/pg_type
+export type ColumnInfo = {
+  name: string;
+  // Canonical pg_type name, e.g. "int4", "varchar" or "_text" for arrays
+  udtName: string;
+  // Schema the type is defined in, e.g. "pg_catalog"
+  udtSchema: string;
+  // Element type name for array columns, e.g. "text" for "_text"
+  elementType: string | null;
+  elementSchema: string | null;
+  // Array elements can't be null: the element type is a NOT NULL domain
+  elementNotNull: boolean;
+  // Type modifier (varchar length, numeric precision/scale), -1 if none
+  typmod: number;
+  // Declared array dimensions, 0 for non-array columns
+  dimensions: number;
+  isNullable: boolean;
+  defaultValue: string | null;
+  // GENERATED ALWAYS/BY DEFAULT AS IDENTITY, null for other columns
+  identity: "always" | "by_default" | null;
+  // GENERATED ALWAYS AS (...) STORED; defaultValue holds the expression
+  isGenerated: boolean;
+  // Human-readable type as printed by format_type(), e.g. "character varying(255)"
+  formattedType: string;
+  // COMMENT ON COLUMN text. Absent in snapshots from older versions.
+  comment?: string | null;
+};
+
+// Raw row shape returned by COLUMNS_QUERY
+export type CatalogColumnRow = {
+  column_name: string;
+  udt_name: string;
+  udt_schema: string;
+  element_type: string | null;
+  element_schema: string | null;
+  element_not_null: boolean;
+  typmod: number;
+  dimensions: number;
+  is_nullable: boolean;
+  column_default: string | null;
+  // pg_attribute.attidentity: "a" (always), "d" (by default) or ""
+  identity: string;
+  // pg_attribute.attgenerated: "s" (stored) or ""
+  generated: string;
+  formatted_type: string;
+  column_comment: string | null;
+};
+
+// Raw row shape returned by COLUMNS_QUERY: the column and its relation
+export type CatalogRelationColumnRow = CatalogColumnRow & {
+  schema_name: string;
+  relation_name: string;
+};
+
+// Columns of every table, view, materialized view and composite type in the
+// requested schemas. Domains, including domains used as array elements, are
+// resolved to their base type so that they match the typeMap.
+export const COLUMNS_QUERY = `
+  SELECT
+    n.nspname AS schema_name,
+    c.relname AS relation_name,
+    a.attname AS column_name,
+    t.typname AS udt_name,
+    tn.nspname AS udt_schema,
+    et.typname AS element_type,
+    etn.nspname AS element_schema,
+    COALESCE(edt.typnotnull, false) AS element_not_null,
+    CASE WHEN dt.typtype = 'd' THEN dt.typtypmod ELSE a.atttypmod END AS typmod,
+    a.attndims AS dimensions,
+    NOT (a.attnotnull OR dt.typnotnull) AS is_nullable,
+    pg_get_expr(ad.adbin, ad.adrelid) AS column_default,
+    a.attidentity::text AS identity,
+    a.attgenerated::text AS generated,
+    format_type(a.atttypid, a.atttypmod) AS formatted_type,
+    col_description(a.attrelid, a.attnum) AS column_comment
+  FROM pg_attribute a
+  JOIN pg_class c ON c.oid = a.attrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  JOIN pg_type dt ON dt.oid = a.atttypid
+  JOIN pg_type t
+    ON t.oid = CASE WHEN dt.typtype = 'd' THEN dt.typbasetype ELSE dt.oid END
+  JOIN pg_namespace tn ON tn.oid = t.typnamespace
+  LEFT JOIN pg_type edt ON edt.oid = t.typelem AND t.typcategory = 'A'
+  LEFT JOIN pg_type et
+    ON et.oid = CASE WHEN edt.typtype = 'd' THEN edt.typbasetype ELSE edt.oid END
+  LEFT JOIN pg_namespace etn ON etn.oid = et.typnamespace
+  LEFT JOIN pg_attrdef ad ON ad.adrelid = a.attrelid AND ad.adnum = a.attnum
+  WHERE n.nspname = ANY($1::text[])
+  AND c.relkind IN ('r', 'p', 'v', 'm', 'c')
+  AND NOT c.relispartition
+  AND a.attnum > 0
+  AND NOT a.attisdropped
+  ORDER BY n.nspname, c.relname, a.attnum
+`;
+
+// Convert a raw catalog row into a ColumnInfo
+export function toColumnInfo(row: CatalogColumnRow): ColumnInfo {
+  return {
+    name: row.column_name,
+    udtName: row.udt_name,
+    udtSchema: row.udt_schema,
+    elementType: row.element_type,
+    elementSchema: row.element_schema,
+    elementNotNull: row.element_not_null,
+    typmod: row.typmod,
+    dimensions: row.dimensions,
+    isNullable: row.is_nullable,
+    defaultValue: row.column_default,
+    identity: row.identity === "a"
+      ? "always"
+      : row.identity === "d"
+      ? "by_default"
+      : null,
+    isGenerated: row.generated === "s",
+    formattedType: row.formatted_type,
+    comment: row.column_comment,
+  };
+}
+
+// Fetch the columns of every relation in the given schemas in ordinal order,
+// keyed by "schema.relation"
+export async function introspectColumns(
+  client: QueryClient,
+  schemas: string[],
+): Promise<Map<string, ColumnInfo[]>> {
+  const result = await client.queryObject<CatalogRelationColumnRow>(
+    COLUMNS_QUERY,
+    [schemas],
+  );
+
+  const columns = new Map<string, ColumnInfo[]>();
+  for (const row of result.rows) {
+    const key = `${row.schema_name}.${row.relation_name}`;
+    const relationColumns = columns.get(key) || [];
+    relationColumns.push(toColumnInfo(row));
+    columns.set(key, relationColumns);
+  }
+  return columns;
+}
+
+// PostgreSQL enum type with its labels in sort order
+export type EnumInfo = {
+  schema: string;
+  name: string;
+  variants: string[];
+};
+
+// Raw row shape returned by ENUMS_QUERY, one row per label
+export type CatalogEnumRow = {
+  schema_name: string;
+  enum_name: string;
+  label: string;
+};
+
+export const ENUMS_QUERY = `
+  SELECT
+    n.nspname AS schema_name,
+    t.typname AS enum_name,
+    e.enumlabel AS label
+  FROM pg_type t
+  JOIN pg_enum e ON e.enumtypid = t.oid
+  JOIN pg_namespace n ON n.oid = t.typnamespace
+  WHERE n.nspname = ANY($1::text[])
+  ORDER BY n.nspname, t.typname, e.enumsortorder
+`;
+
+// Group enum label rows into one EnumInfo per type, preserving row order
+export function toEnumInfos(rows: CatalogEnumRow[]): EnumInfo[] {
+  const enums: EnumInfo[] = [];
+  for (const row of rows) {
+    const last = enums[enums.length - 1];
+    if (
+      last && last.schema === row.schema_name && last.name === row.enum_name
+    ) {
+      last.variants.push(row.label);
+    } else {
+      enums.push({
+        schema: row.schema_name,
+        name: row.enum_name,
+        variants: [row.label],
+      });
+    }
+  }
+  return enums;
+}
+
+// Fetch the enum types defined in the given schemas
+export async function introspectEnums(
+  client: QueryClient,
+  schemas: string[],
+): Promise<EnumInfo[]> {
+  const result = await client.queryObject<CatalogEnumRow>(ENUMS_QUERY, [
+    schemas,
+  ]);
+  return toEnumInfos(result.rows);
+}
+
+// Primary key, foreign key or unique constraint on a table
+export type ConstraintInfo = {
+  name: string;
+  type: "primary_key" | "foreign_key" | "unique";
+  columns: string[];
+  // Referenced table for foreign keys, otherwise null
+  references: {
+    schema: string;
+    table: string;
+    columns: string[];
+  } | null;
+};
+
+// Raw row shape returned by CONSTRAINTS_QUERY
+export type CatalogConstraintRow = {
+  schema_name: string;
+  table_name: string;
+  constraint_name: string;
+  constraint_type: "p" | "f" | "u";
+  columns: string[];
+  foreign_schema: string | null;
+  foreign_table: string | null;
+  foreign_columns: string[] | null;
+};
+
+// Key columns are returned in constraint order rather than attnum order
+export const CONSTRAINTS_QUERY = `
+  SELECT
+    n.nspname AS schema_name,
+    c.relname AS table_name,
+    con.conname AS constraint_name,
+    con.contype AS constraint_type,
+    ARRAY(
+      SELECT a.attname::text
+      FROM unnest(con.conkey) WITH ORDINALITY AS k(attnum, ord)
+      JOIN pg_attribute a ON a.attrelid = con.conrelid AND a.attnum = k.attnum
+      ORDER BY k.ord
+    ) AS columns,
+    fn.nspname AS foreign_schema,
+    fc.relname AS foreign_table,
+    CASE WHEN con.contype = 'f' THEN ARRAY(
+      SELECT a.attname::text
+      FROM unnest(con.confkey) WITH ORDINALITY AS k(attnum, ord)
+      JOIN pg_attribute a ON a.attrelid = con.confrelid AND a.attnum = k.attnum
+      ORDER BY k.ord
+    ) END AS foreign_columns
+  FROM pg_constraint con
+  JOIN pg_class c ON c.oid = con.conrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  LEFT JOIN pg_class fc ON fc.oid = con.confrelid
+  LEFT JOIN pg_namespace fn ON fn.oid = fc.relnamespace
+  WHERE n.nspname = ANY($1::text[])
+  AND con.contype IN ('p', 'f', 'u')
+  ORDER BY n.nspname, c.relname, con.conname
+`;
+
+const CONSTRAINT_TYPES = {
+  p: "primary_key",
+  f: "foreign_key",
+  u: "unique",
+} as const;
+
+// Convert a raw catalog row into a ConstraintInfo
+export function toConstraintInfo(row: CatalogConstraintRow): ConstraintInfo {
+  return {
+    name: row.constraint_name,
+    type: CONSTRAINT_TYPES[row.constraint_type],
+    columns: row.columns,
+    references: row.foreign_table
+      ? {
+        schema: row.foreign_schema as string,
+        table: row.foreign_table,
+        columns: row.foreign_columns || [],
+      }
+      : null,
+  };
+}
+
+// Fetch the constraints in the given schemas, keyed by "schema.table"
+export async function introspectConstraints(
+  client: QueryClient,
+  schemas: string[],
+): Promise<Map<string, ConstraintInfo[]>> {
+  const result = await client.queryObject<CatalogConstraintRow>(
+    CONSTRAINTS_QUERY,
+    [schemas],
+  );
+
+  const constraints = new Map<string, ConstraintInfo[]>();
+  for (const row of result.rows) {
+    const key = `${row.schema_name}.${row.table_name}`;
+    const tableConstraints = constraints.get(key) || [];
+    tableConstraints.push(toConstraintInfo(row));
+    constraints.set(key, tableConstraints);
+  }
+  return constraints;
+}
+
+// Index on a table or materialized view
+export type IndexInfo = {
+  name: string;
+  // Key columns, or expressions for expression indexes. INCLUDE columns
+  // aren't keys.
+  columns: string[];
+  unique: boolean;
+  primary: boolean;
+  // CREATE INDEX statement as printed by pg_get_indexdef()
+  definition: string;
+};
+
+// Raw row shape returned by INDEXES_QUERY
+export type CatalogIndexRow = {
+  schema_name: string;
+  table_name: string;
+  index_name: string;
+  columns: string[];
+  is_unique: boolean;
+  is_primary: boolean;
+  definition: string;
+};
+
+export const INDEXES_QUERY = `
+  SELECT
+    n.nspname AS schema_name,
+    c.relname AS table_name,
+    i.relname AS index_name,
+    ARRAY(
+      SELECT pg_get_indexdef(ix.indexrelid, k, true)
+      FROM generate_series(1, ix.indnkeyatts) AS k
+      ORDER BY k
+    ) AS columns,
+    ix.indisunique AS is_unique,
+    ix.indisprimary AS is_primary,
+    pg_get_indexdef(ix.indexrelid) AS definition
+  FROM pg_index ix
+  JOIN pg_class c ON c.oid = ix.indrelid
+  JOIN pg_class i ON i.oid = ix.indexrelid
+  JOIN pg_namespace n ON n.oid = c.relnamespace
+  WHERE n.nspname = ANY($1::text[])
+  ORDER BY n.nspname, c.relname, i.relname
+`;
+
+// Convert a raw catalog row into an IndexInfo
+export function toIndexInfo(row: CatalogIndexRow): IndexInfo {
+  return {
+    name: row.index_name,
+    columns: row.columns,
+    unique: row.is_unique,
+    primary: row.is_primary,
+    definition: row.definition,
+  };
+}
+
+// Fetch the indexes in the given schemas, keyed by "schema.table"
+export async function introspectIndexes(
+  client: QueryClient,
+  schemas: string[],
+): Promise<Map<string, IndexInfo[]>> {
+  const result = await client.queryObject<CatalogIndexRow>(
+    INDEXES_QUERY,
+    [schemas],
+  );
+
+  const indexes = new Map<string, IndexInfo[]>();
+  for (const row of result.rows) {
+    const key = `${row.schema_name}.${row.table_name}`;
+    const tableIndexes = indexes.get(key) || [];
+    tableIndexes.push(toIndexInfo(row));
+    indexes.set(key, tableIndexes);
+  }
+  return indexes;
+}
+
+// Everything introspected for a schema. This is what the generator renders
+// and what snapshots store.
+export type TableModel = TableInfo & {
+  columns: ColumnInfo[];
+  constraints: ConstraintInfo[];
+  // Absent in snapshots from older versions
+  indexes?: IndexInfo[];
+};
+
+export type CompositeTypeModel = {
+  name: string;
+  columns: ColumnInfo[];
+};
+
+export type SchemaModel = {
+  name: string;
+  enums: EnumInfo[];
+  compositeTypes: CompositeTypeModel[];
+  tables: TableModel[];
+};
+
+// Introspect the given schemas. All relation kinds are included so that the
+// model is complete; callers filter what they render. The catalog is read in
+// a fixed number of queries and the model is assembled in memory.
+export async function introspectSchemaModels(
+  client: QueryClient,
+  schemas: string[],
+): Promise<SchemaModel[]> {
+  const enums = await introspectEnums(client, schemas);
+  const compositeTypes = await introspectCompositeTypes(client, schemas);
+  const tables = await introspectTables(client, schemas);
+  const columns = await introspectColumns(client, schemas);
+  const constraints = await introspectConstraints(client, schemas);
+  const indexes = await introspectIndexes(client, schemas);
+
+  return schemas.map((schema) => ({
+    name: schema,
+    enums: enums.filter((enumInfo) => enumInfo.schema === schema),
+    compositeTypes: (compositeTypes.get(schema) || []).map((typeName) => ({
+      name: typeName,
+      columns: columns.get(`${schema}.${typeName}`) || [],
+    })),
+    tables: (tables.get(schema) || []).map((table) => ({
+      ...table,
+      columns: columns.get(`${schema}.${table.name}`) || [],
+      constraints: constraints.get(`${schema}.${table.name}`) || [],
+      indexes: indexes.get(`${schema}.${table.name}`) || [],
+    })),
+  }));
+}
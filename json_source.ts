@@ -0,0 +1,152 @@
+// JSON parsing that remembers where each value came from, so that errors in
+// hand-edited files can point at a line and column
+
+// Path to a value: object keys and array indices from the root
+export type JsonPath = (string | number)[];
+
+export type SourceLocation = { line: number; column: number };
+
+export type JsonSource = {
+  value: unknown;
+  // Location of the value at a path, or of its key when key is true. Paths
+  // that don't exist resolve to their nearest existing parent.
+  locate(path: JsonPath, key?: boolean): SourceLocation;
+};
+
+// Format a location in a file as "file:line:column"
+export function formatLocation(file: string, location: SourceLocation) {
+  return `${file}:${location.line}:${location.column}`;
+}
+
+// Parse JSON text, recording the offset of every value and object key. Syntax
+// errors are thrown as "file:line:column: message".
+export function parseJsonSource(text: string, file: string): JsonSource {
+  const valueOffsets = new Map<string, number>();
+  const keyOffsets = new Map<string, number>();
+  let pos = 0;
+
+  const location = (offset: number): SourceLocation => {
+    const lines = text.slice(0, offset).split("\n");
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+  };
+
+  const fail = (message: string, offset = pos): never => {
+    throw new Error(`${formatLocation(file, location(offset))}: ${message}`);
+  };
+
+  const describeNext = () =>
+    pos < text.length
+      ? `unexpected ${JSON.stringify(text[pos])}`
+      : "unexpected end of file";
+
+  const skipWhitespace = () => {
+    while (pos < text.length && " \t\n\r".includes(text[pos])) pos++;
+  };
+
+  const expect = (char: string, what: string) => {
+    skipWhitespace();
+    if (text[pos] !== char) fail(`Expected ${what}, ${describeNext()}`);
+    pos++;
+  };
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < text.length && text[pos] !== '"') {
+      if (text[pos] === "\n") fail("Unterminated string", start);
+      pos += text[pos] === "\\" ? 2 : 1;
+    }
+    if (pos >= text.length) fail("Unterminated string", start);
+    pos++;
+    try {
+      return JSON.parse(text.slice(start, pos));
+    } catch (_error) {
+      return fail("Invalid escape sequence in string", start);
+    }
+  };
+
+  const parseValue = (path: JsonPath): unknown => {
+    skipWhitespace();
+    const start = pos;
+    valueOffsets.set(JSON.stringify(path), start);
+    const char = text[pos];
+
+    if (char === "{") {
+      pos++;
+      const object: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[pos] === "}") {
+        pos++;
+        return object;
+      }
+      while (true) {
+        skipWhitespace();
+        if (text[pos] !== '"') {
+          fail(`Expected a property name, ${describeNext()}`);
+        }
+        const keyStart = pos;
+        const key = parseString();
+        if (Object.hasOwn(object, key)) {
+          fail(`Duplicate key ${JSON.stringify(key)}`, keyStart);
+        }
+        keyOffsets.set(JSON.stringify([...path, key]), keyStart);
+        expect(":", '":"');
+        object[key] = parseValue([...path, key]);
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          continue;
+        }
+        expect("}", '"," or "}"');
+        return object;
+      }
+    }
+
+    if (char === "[") {
+      pos++;
+      const array: unknown[] = [];
+      skipWhitespace();
+      if (text[pos] === "]") {
+        pos++;
+        return array;
+      }
+      while (true) {
+        array.push(parseValue([...path, array.length]));
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          continue;
+        }
+        expect("]", '"," or "]"');
+        return array;
+      }
+    }
+
+    if (char === '"') return parseString();
+
+    const literal = text.slice(pos).match(
+      /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/,
+    );
+    if (!literal) return fail(`Expected a value, ${describeNext()}`);
+    pos += literal[0].length;
+    return JSON.parse(literal[0]);
+  };
+
+  const value = parseValue([]);
+  skipWhitespace();
+  if (pos < text.length) fail(`Expected end of file, ${describeNext()}`);
+
+  return {
+    value,
+    locate(path, key = false) {
+      for (let length = path.length; length >= 0; length--) {
+        const id = JSON.stringify(path.slice(0, length));
+        const offset =
+          (key && length === path.length ? keyOffsets.get(id) : undefined) ??
+            valueOffsets.get(id);
+        if (offset !== undefined) return location(offset);
+      }
+      return { line: 1, column: 1 };
+    },
+  };
+}
@@ -2,32 +2,112 @@ import { load } from "https://deno.land/std@0.220.1/dotenv/mod.ts";
 import { Client } from "https://deno.land/x/postgres@v0.17.0/mod.ts";
 import { parse } from "https://deno.land/std@0.220.1/flags/mod.ts";
 import { join } from "https://deno.land/std@0.220.1/path/mod.ts";
-import { exists as _exists } from "https://deno.land/std@0.220.1/fs/exists.ts";
+import {
+  type Config,
+  CONFIG_VERSION,
+  defaultConfig,
+  readConfig,
+  writeNewConfig,
+} from "./config.ts";
+import type { QueryClient, SchemaModel } from "./introspect.ts";
+import {
+  diff,
+  formatLintFindings,
+  introspect,
+  lint,
+  render,
+  type RenderOptions,
+  type Target,
+  toSarif,
+  validateRenderOptions,
+} from "./mod.ts";
+import {
+  diffModuleTree,
+  writeFileIfChanged,
+  writeModuleTree,
+} from "./module_tree.ts";
+import { formatRust } from "./rustfmt.ts";
+import { formatSchemaDiff } from "./schema_diff.ts";
+import {
+  createSnapshot,
+  parseSnapshot,
+  readSnapshot,
+  writeSnapshot,
+} from "./snapshot.ts";
+import { unifiedDiff } from "./text_diff.ts";
+import type { RustTypePresets } from "./type_map.ts";
+import { schemaFingerprint, watchChanges } from "./watch.ts";
 
 // Parse command-line arguments
-// Remove the '--' separator that Deno adds when using 'deno task start -- --arg value'
-const cleanArgs = Deno.args.filter((arg) => arg !== "--");
-
-const args = parse(cleanArgs, {
-  string: ["output", "dir", "name"],
-  boolean: ["help", "sqlx"],
-  alias: {
-    o: "output", // Full output path
-    d: "dir", // Output directory
-    n: "name", // Output filename
-    h: "help", // Help flag
-    s: "sqlx", // Use SQLx rename attributes instead of Serde
-  },
-  default: {
-    dir: Deno.cwd(), // Default to current directory
-    sqlx: false, // Default to using Serde rename attributes
-  },
-});
-
-console.log("Command-line arguments:", args);
-
-// Show help if requested
-if (args.help) {
+export function parseArgs(argv: string[]) {
+  // Remove the '--' separator that Deno adds when using 'deno task start -- --arg value'
+  const cleanArgs = argv.filter((arg) => arg !== "--");
+
+  return parse(cleanArgs, {
+    string: [
+      "config",
+      "output",
+      "out-dir",
+      "dir",
+      "name",
+      "schema",
+      "include",
+      "exclude",
+      "from-snapshot",
+      "target",
+      "types",
+      "decimal",
+      "watch",
+      "poll",
+      "format",
+    ],
+    boolean: [
+      "help",
+      "sqlx",
+      "diesel",
+      "write-structs",
+      "id-newtypes",
+      "nullable-array-elements",
+      "all-schemas",
+      "views",
+      "materialized-views",
+      "composite-types",
+      "imports",
+      "rustfmt",
+      "check",
+    ],
+    collect: ["schema", "include", "exclude"],
+    negatable: ["views", "materialized-views", "composite-types", "imports"],
+    alias: {
+      o: "output", // Full output path
+      d: "dir", // Output directory
+      n: "name", // Output filename
+      h: "help", // Help flag
+      s: "sqlx", // Use SQLx rename attributes instead of Serde
+      c: "check", // Compare with the existing output instead of writing it
+      t: "target", // Output backend
+    },
+    default: {
+      dir: Deno.cwd(), // Default to current directory
+      target: "rust", // Default to generating Rust types
+      sqlx: false, // Default to using Serde rename attributes
+      diesel: false, // Generate Diesel table! macros and Queryable structs
+      "write-structs": false, // Generate insert and update structs per table
+      "id-newtypes": false, // Wrap primary keys in newtype IDs
+      "nullable-array-elements": false, // Vec<Option<T>> for array columns
+      views: true, // Generate read-only structs for views
+      "materialized-views": true, // ...and for materialized views
+      "composite-types": true, // Generate structs for composite types
+      imports: true, // Start the file with the use declarations it needs
+      rustfmt: false, // Format Rust output with rustfmt
+      format: "text", // diff output format
+    },
+  });
+}
+
+type Args = ReturnType<typeof parseArgs>;
+
+function printHelp() {
   // Detect if running as a compiled binary
   let isCompiledBinary = false;
   try {
@@ -58,294 +138,651 @@ if (args.help) {
     : "deno run --allow-net --allow-read --allow-env main.ts";
 
   console.log(`
-DB Analyzer - Generate Rust types from PostgreSQL database
+DB Analyzer - Generate Rust (or TypeScript/Zod) types from PostgreSQL database
 
 USAGE:
   ${commandPrefix} [OPTIONS]
+  ${commandPrefix} snapshot [OPTIONS]
+  ${commandPrefix} diff <from> [<to>] [OPTIONS]
+  ${commandPrefix} lint [OPTIONS]
+
+COMMANDS:
+  snapshot               Save the introspected schema to a JSON snapshot
+                         (default: database_name_schema.json)
+  diff <from> [<to>]     Compare two schemas, each a postgres:// URL or a
+                         snapshot file (<to> defaults to DATABASE_URL). Exits
+                         non-zero when changes break the generated Rust types.
+  lint                   Check the schema against the lint rules, configured
+                         under "lint" in mappings.json. Exits non-zero when a
+                         rule with severity error fails. (alias: analyze)
 
 OPTIONS:
+  --config <path>        Configuration file (default: mappings.json in the
+                         current directory, created if missing)
   -o, --output <path>    Full output path for the generated file
   -d, --dir <dir>        Output directory (default: current directory)
-  -n, --name <name>      Output filename (default: database_name_types.rs)
+  --out-dir <dir>        Write a Rust module tree instead of a single file:
+                         one file per table, enum and composite type plus a
+                         mod.rs re-exporting them. Stale generated files are
+                         removed. (Rust only)
+  -n, --name <name>      Output filename (default: database_name_types.rs,
+                         database_name_types.ts, database_name_schemas.ts,
+                         database_name_schema.md or .html, or
+                         database_name_erd.mmd)
+  -t, --target <target>  Output backend: rust, ts, zod, markdown, html or
+                         mermaid (default: rust)
   -s, --sqlx             Use SQLx rename attributes instead of Serde (default: false)
+  --diesel               Generate Diesel table! macros, joinable! declarations
+                         and Queryable/Selectable structs (Rust only)
+  --write-structs        Also generate New<Table> insert and <Table>Patch
+                         update structs for each table (Rust only)
+  --id-newtypes          Wrap single-column primary keys in newtype IDs (e.g.
+                         UsersId) used by referencing foreign keys (Rust only)
+  --nullable-array-elements
+                         Allow NULL array elements: Vec<Option<T>> (or
+                         (T | null)[]) unless the element type is a NOT NULL
+                         domain
+  --no-imports           Leave out use declarations, for files that are
+                         include!d (Rust only)
+  --rustfmt              Format the output with rustfmt when it's installed
+                         (Rust only)
+  --types <crate>        Date and time types: chrono or time (default: chrono,
+                         Rust only)
+  --decimal <crate>      numeric type: rust_decimal or bigdecimal (default:
+                         rust_decimal, Rust only)
+  --schema <name>        Schema to generate types for, repeatable (default: public)
+  --all-schemas          Generate types for every non-system schema
+  --include <pattern>    Only generate relations whose schema-qualified name
+                         matches, repeatable. Globs (public.user_*) or
+                         /regex/ patterns
+  --exclude <pattern>    Skip relations whose schema-qualified name matches,
+                         repeatable
+  --no-views             Skip views
+  --no-materialized-views
+                         Skip materialized views
+  --no-composite-types   Skip composite types
+  --from-snapshot <file> Generate from a schema snapshot instead of the database
+  -c, --check            Compare generated types with the existing output file
+                         and exit non-zero with a diff if they differ. Nothing
+                         is written.
+  --watch <dir>          Keep running and regenerate (or re-check with --check)
+                         when files in the migrations directory change
+  --poll <seconds>       Keep running and check the database schema every
+                         <seconds> seconds, regenerating when it changed
+  --format <format>      diff output: text or json, lint output: text or
+                         sarif (default: text)
   -h, --help             Show this help message
 
 EXAMPLES:
   ${commandPrefix}
   ${commandPrefix} --name my_types.rs
+  ${commandPrefix} --config config/db_analyzer.json
   ${commandPrefix} --dir /path/to/output
   ${commandPrefix} --output /path/to/output/my_types.rs
+  ${commandPrefix} --out-dir src/db
+  ${commandPrefix} --schema billing --schema auth
+  ${commandPrefix} --exclude '*._sqlx_migrations' --exclude '/^public\.tmp_/'
+  ${commandPrefix} snapshot --output schema.json
+  ${commandPrefix} --from-snapshot schema.json
+  ${commandPrefix} diff schema.json --format json
+  ${commandPrefix} lint --from-snapshot schema.json --format sarif
+  ${commandPrefix} --check --output src/db_types.rs
+  ${commandPrefix} --watch migrations --output src/db_types.rs
+  ${commandPrefix} --target ts --output web/src/db_types.ts
+  ${commandPrefix} --target markdown --output docs/schema.md
+  ${commandPrefix} --target mermaid --from-snapshot schema.json
+  ${commandPrefix} --diesel --output src/schema.rs
+  ${commandPrefix} --diesel --write-structs --output src/schema.rs
+  ${commandPrefix} --id-newtypes --write-structs
+  ${commandPrefix} --types time --decimal bigdecimal
 `);
-  Deno.exit(0);
-}
-
-// Load environment variables from .env file
-await load({ export: true });
-
-const connectionString = Deno.env.get("DATABASE_URL");
-if (!connectionString) {
-  console.error("DATABASE_URL environment variable is not set");
-  Deno.exit(1);
 }
 
-// Load type mappings from JSON file or create default if it doesn't exist
-const mappingsPath = join(Deno.cwd(), "mappings.json");
-type MappingsType = {
-  typeMap: Record<string, string>;
-  specialCases?: Record<string, string>;
-};
-let mappings: MappingsType;
-
-try {
-  const mappingsText = await Deno.readTextFile(mappingsPath);
-  mappings = JSON.parse(mappingsText) as MappingsType;
-} catch (_error) {
-  // If file doesn't exist or can't be parsed, create default mappings
-  console.log("Creating default mappings.json file...");
-  mappings = {
-    "typeMap": {
-      "int2": "i16",
-      "int4": "i32",
-      "int8": "i64",
-      "float4": "f32",
-      "float8": "f64",
-      "numeric": "f64",
-      "bool": "bool",
-      "varchar": "String",
-      "char": "String",
-      "text": "String",
-      "uuid": "uuid::Uuid",
-      "date": "chrono::NaiveDate",
-      "timestamp": "chrono::NaiveDateTime",
-      "timestamptz": "chrono::DateTime<chrono::Utc>",
-      "json": "serde_json::Value",
-      "jsonb": "serde_json::Value",
-    },
-    "specialCases": {
-      // Add any special case mappings here
-      // For example: "some_table_name": "CustomStructName"
+// Render options for the command-line arguments. The configuration file and
+// database name are added once they're known.
+export function toRenderOptions(args: Args): RenderOptions {
+  return {
+    target: args.target as Target,
+    schemas: args["all-schemas"] ? undefined : getRequestedSchemas(args),
+    include: args.include,
+    exclude: args.exclude,
+    views: args.views,
+    materializedViews: args["materialized-views"],
+    compositeTypes: args["composite-types"],
+    sqlx: args.sqlx,
+    diesel: args.diesel,
+    writeStructs: args["write-structs"],
+    idNewtypes: args["id-newtypes"],
+    nullableArrayElements: args["nullable-array-elements"],
+    imports: args.imports,
+    presets: {
+      types: args.types as RustTypePresets["types"] | undefined,
+      decimal: args.decimal as RustTypePresets["decimal"] | undefined,
     },
+    moduleTree: args["out-dir"] !== undefined,
+    warn: (message) => console.warn(`⚠️  ${message}`),
   };
+}
+
+// Load and validate the configuration file, mappings.json in the current
+// directory by default. A missing default file is created with the built-in
+// mappings unless create is false; an existing file is never overwritten.
+async function loadConfig(args: Args, create: boolean): Promise<Config> {
+  const configPath = args.config ?? join(Deno.cwd(), "mappings.json");
+  try {
+    const { config, migratedFrom, migrationSteps } = await readConfig(
+      configPath,
+    );
+    if (migratedFrom !== null) {
+      console.warn(
+        `⚠️  ${configPath} uses config version ${migratedFrom} and was migrated in memory. To update it, set "version": ${CONFIG_VERSION} and ${
+          migrationSteps.join(", ")
+        }.`,
+      );
+    }
+    return config;
+  } catch (error) {
+    if (!(error instanceof Deno.errors.NotFound)) throw error;
+    if (args.config) {
+      throw new Error(`Config file ${configPath} doesn't exist`);
+    }
+  }
+
+  const config = defaultConfig();
+  if (create) {
+    await writeNewConfig(configPath, config);
+    console.log(`✅ Created default mappings.json file at ${configPath}`);
+  }
+  return config;
+}
 
-  // Write default mappings to file
-  await Deno.writeTextFile(mappingsPath, JSON.stringify(mappings, null, 2));
-  console.log(`✅ Created default mappings.json file at ${mappingsPath}`);
+// Extract database name from connection string
+function getDatabaseName(connectionString: string | undefined): string {
+  let dbName = "db";
+  try {
+    // Parse the connection string to extract the database name
+    if (connectionString) {
+      const url = new URL(connectionString);
+      // The pathname starts with a slash, so we remove it and split by any query params
+      const pathParts = url.pathname.substring(1).split("?");
+      if (pathParts[0]) {
+        dbName = pathParts[0];
+      }
+    }
+  } catch (_e) {
+    console.warn(
+      "Could not parse database name from connection string, using default name",
+    );
+  }
+  return dbName;
 }
 
-// PostgreSQL data type to Rust type mapping
-const pgToRustTypeMap: Record<string, string> = mappings.typeMap;
+// Determine output path based on command-line arguments
+function getOutputPath(args: Args, defaultFilename: string): string {
+  if (args.output) {
+    // If full output path is specified, use it directly
+    return args.output;
+  }
+
+  // Determine output directory
+  const outputDir = args.dir || Deno.cwd();
 
-// Convert PostgreSQL column name to Rust snake_case field name
-function toRustFieldName(name: string): string {
-  // First convert camelCase to snake_case
-  const snakeCase = name
-    .replace(/([a-z])([A-Z])/g, "$1_$2") // Convert camelCase to snake_case
-    .replace(/([A-Z])([A-Z][a-z])/g, "$1_$2") // Handle consecutive uppercase letters
-    .toLowerCase() // Convert to lowercase
-    .replace(/[^a-z0-9_]/g, "_"); // Replace non-alphanumeric chars with underscores
+  // Determine output filename
+  const outputFilename = args.name || defaultFilename;
 
-  return snakeCase;
+  // Combine directory and filename
+  return join(outputDir, outputFilename);
 }
 
-// Convert PostgreSQL table name to Rust PascalCase struct name
-function toRustStructName(name: string): string {
-  // Use special cases from mappings.json
-  const specialCases: Record<string, string> = mappings.specialCases || {};
+// Schemas requested on the command line, defaulting to public
+function getRequestedSchemas(args: Args): string[] {
+  return args.schema.length > 0 ? args.schema : ["public"];
+}
 
-  // Check if this is a special case
-  const lowerName = name.toLowerCase();
-  if (specialCases[lowerName]) {
-    return specialCases[lowerName];
+// Connect to the database and introspect the requested schemas. Polling
+// passes quiet to leave out the progress messages.
+async function introspectDatabase(
+  args: Args,
+  connectionString: string | undefined,
+  quiet = false,
+): Promise<SchemaModel[]> {
+  const client = new Client(connectionString);
+  try {
+    await client.connect();
+    if (!quiet) console.log("Connected to PostgreSQL database");
+
+    // Count round trips to report alongside the timing
+    let queryCount = 0;
+    const countingClient: QueryClient = {
+      queryObject<T>(query: string, queryArgs?: unknown[]) {
+        queryCount++;
+        return client.queryObject<T>(query, queryArgs);
+      },
+    };
+
+    const start = performance.now();
+    const models = await introspect(countingClient, {
+      schemas: args["all-schemas"] ? "all" : getRequestedSchemas(args),
+    });
+
+    const relationCount = models.reduce(
+      (count, model) => count + model.tables.length,
+      0,
+    );
+    if (quiet) return models;
+    console.log(
+      `Introspected ${relationCount} relations in ${models.length} schema(s) with ${queryCount} queries in ${
+        Math.round(performance.now() - start)
+      }ms`,
+    );
+    return models;
+  } finally {
+    await client.end();
   }
+}
 
-  // Handle normal cases - split by non-alphanumeric characters and convert to PascalCase
-  return name
-    .split(/[^a-zA-Z0-9]/) // Split on non-alphanumeric characters
-    .map((part) => {
-      if (!part) return "";
+// Save the introspected schema to a JSON snapshot
+async function createSchemaSnapshot(
+  args: Args,
+  connectionString: string | undefined,
+) {
+  const dbName = getDatabaseName(connectionString);
+  const snapshot = createSnapshot(
+    dbName,
+    await introspectDatabase(args, connectionString),
+  );
+
+  const outputPath = getOutputPath(args, `${dbName}_schema.json`);
+  await writeSnapshot(outputPath, snapshot);
+  console.log(`Schema snapshot saved to ${outputPath}`);
+}
 
-      // Check if part is an acronym (all uppercase)
-      if (part.toUpperCase() === part && part.length > 1) {
-        return part; // Keep acronyms as is
-      }
+// Compare generated output with the file on disk without writing anything.
+// Returns true when the file is up to date.
+async function checkOutput(
+  outputPath: string,
+  generated: string,
+): Promise<boolean> {
+  let existing: string;
+  try {
+    existing = await Deno.readTextFile(outputPath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      console.error(`❌ ${outputPath} does not exist`);
+      return false;
+    }
+    throw error;
+  }
+
+  const diff = unifiedDiff(existing, generated, {
+    fromFile: outputPath,
+    toFile: `${outputPath} (generated)`,
+  });
+  if (!diff) {
+    console.log(`✅ ${outputPath} is up to date`);
+    return true;
+  }
+
+  console.log(diff);
+  console.error(`❌ ${outputPath} is out of date, regenerate it`);
+  return false;
+}
 
-      // Handle camelCase parts like "accountInfo" -> "AccountInfo"
-      const camelCaseParts = part.replace(/([a-z])([A-Z])/g, "$1 $2").split(
-        " ",
+// Run generated files through rustfmt with --rustfmt. Without rustfmt
+// installed they're left as they are, with a warning.
+async function formatOutput(
+  args: Args,
+  files: Map<string, string>,
+): Promise<Map<string, string>> {
+  if (!args.rustfmt) return files;
+  const formatted = new Map<string, string>();
+  for (const [path, content] of files) {
+    const result = await formatRust(content);
+    if (result === null) {
+      console.warn(
+        "⚠️  rustfmt isn't installed, leaving the output unformatted",
       );
-      return camelCaseParts
-        .map((subPart) =>
-          subPart.charAt(0).toUpperCase() + subPart.slice(1).toLowerCase()
-        )
-        .join("");
-    })
-    .join("");
+      return files;
+    }
+    formatted.set(path, result);
+  }
+  return formatted;
 }
 
-// Get Rust type for PostgreSQL data type
-function getRustType(pgType: string, isNullable: boolean): string {
-  let rustType = pgToRustTypeMap[pgType] || pgToRustTypeMap["default"];
+// Compare a generated module tree with the files in outDir without writing
+// anything. Returns true when the tree is up to date.
+async function checkOutputDir(
+  outDir: string,
+  files: Map<string, string>,
+): Promise<boolean> {
+  const { changed, missing, stale } = await diffModuleTree(outDir, files);
+  for (const { diff } of changed) console.log(diff);
+  for (const path of missing) {
+    console.error(`❌ ${join(outDir, path)} does not exist`);
+  }
+  for (const path of stale) {
+    console.error(`❌ ${join(outDir, path)} is stale and would be removed`);
+  }
 
-  // Handle array types
-  if (pgType.endsWith("[]")) {
-    const baseType = pgType.slice(0, -2);
-    const baseRustType = pgToRustTypeMap[baseType] ||
-      pgToRustTypeMap["default"];
-    rustType = `Vec<${baseRustType}>`;
+  if (changed.length + missing.length + stale.length === 0) {
+    console.log(`✅ ${outDir} is up to date`);
+    return true;
   }
+  console.error(`❌ ${outDir} is out of date, regenerate it`);
+  return false;
+}
 
-  // Add Option wrapper for nullable fields
-  if (isNullable) {
-    rustType = `Option<${rustType}>`;
+// Generate the output and write it, or with --check compare it with the
+// existing output. Returns false when --check finds drift.
+async function generateTypes(
+  args: Args,
+  config: Config,
+  connectionString: string | undefined,
+): Promise<boolean> {
+  const snapshotPath = args["from-snapshot"];
+  if (snapshotPath) {
+    const snapshot = await readSnapshot(snapshotPath);
+    console.log(`Loaded schema snapshot from ${snapshotPath}`);
+    return await writeTypes(args, config, snapshot.schemas, snapshot.database);
   }
 
-  return rustType;
+  return await writeTypes(
+    args,
+    config,
+    await introspectDatabase(args, connectionString),
+    getDatabaseName(connectionString),
+  );
 }
 
-async function generateRustTypes() {
-  const client = new Client(connectionString);
-  try {
-    await client.connect();
-    console.log("Connected to PostgreSQL database");
-
-    // Get all tables in the public schema
-    const tablesResult = await client.queryObject<{ table_name: string }>(`
-      SELECT table_name
-      FROM information_schema.tables
-      WHERE table_schema = 'public'
-      AND table_type = 'BASE TABLE'
-      ORDER BY table_name
-    `);
-
-    let rustOutput = "// Generated Rust types for PostgreSQL database\n\n";
-
-    // Add necessary imports
-    if (args.sqlx) {
-      rustOutput += `use sqlx;\n`;
-      rustOutput += `use serde::{Deserialize, Serialize};\n`;
-    } else {
-      rustOutput += `use serde::{Deserialize, Serialize};\n`;
-    }
-    rustOutput += `use chrono;\n`;
-    rustOutput += `use uuid;\n`;
-    rustOutput += `use serde_json;\n\n`;
-
-    for (const table of tablesResult.rows) {
-      const tableName = table.table_name;
-      const structName = toRustStructName(tableName);
-
-      // Get columns for this table
-      const columnsResult = await client.queryObject<{
-        column_name: string;
-        data_type: string;
-        is_nullable: string;
-        column_default: string | null;
-      }>(
-        `
-        SELECT column_name, data_type, is_nullable, column_default
-        FROM information_schema.columns
-        WHERE table_schema = 'public'
-        AND table_name = $1
-        ORDER BY ordinal_position
-      `,
-        [tableName],
-      );
+// Render the schema model and write the output, or with --check compare it
+// with the existing output. Files whose content is unchanged aren't
+// rewritten. Returns false when --check finds drift.
+async function writeTypes(
+  args: Args,
+  config: Config,
+  models: SchemaModel[],
+  dbName: string,
+): Promise<boolean> {
+  const files = await formatOutput(
+    args,
+    render(models, { ...toRenderOptions(args), config, database: dbName }),
+  );
+
+  const outDir = args["out-dir"];
+  if (outDir) {
+    if (args.check) return await checkOutputDir(outDir, files);
+
+    const { written, removed } = await writeModuleTree(outDir, files);
+    console.log(
+      `Types generated in ${outDir}: ${files.size} files, ${written.length} written, ${removed.length} stale files removed`,
+    );
+    return true;
+  }
 
-      // Generate struct
-      if (args.sqlx) {
-        // SQLx attributes only
-        rustOutput +=
-          `#[derive(Debug, Serialize, Deserialize, sqlx::FromRow)]\n`;
-        rustOutput += `#[sqlx(rename_all = "camelCase")]\n`;
-        rustOutput += `#[sqlx(table = "${tableName}")]\n`;
-      } else {
-        // Serde attributes only
-        rustOutput += `#[derive(Debug, Serialize, Deserialize)]\n`;
-        rustOutput += `#[serde(rename_all = "camelCase")]\n`;
-        rustOutput += `#[serde(rename = "${tableName}")]\n`;
-      }
-      rustOutput += `pub struct ${structName} {\n`;
-
-      for (const column of columnsResult.rows) {
-        const originalColumnName = column.column_name;
-        const fieldName = toRustFieldName(originalColumnName);
-        const isNullable = column.is_nullable === "YES";
-        const rustType = getRustType(column.data_type, isNullable);
-
-        // Add field with doc comment
-        rustOutput += `    /// ${originalColumnName} - ${column.data_type}${
-          isNullable ? ", nullable" : ""
-        }${
-          column.column_default ? `, default: ${column.column_default}` : ""
-        }\n`;
-
-        // Add rename attributes if field name is different from original column name
-        if (fieldName !== originalColumnName.toLowerCase()) {
-          if (args.sqlx) {
-            // Add only SQLx rename attribute
-            rustOutput += `    #[sqlx(rename = "${originalColumnName}")]\n`;
-          } else {
-            // Add only Serde rename attribute
-            rustOutput += `    #[serde(rename = "${originalColumnName}")]\n`;
-          }
-        }
+  const [[defaultFilename, output]] = files;
+  const outputPath = getOutputPath(args, defaultFilename);
 
-        rustOutput += `    pub ${fieldName}: ${rustType},\n`;
-      }
+  // In check mode report drift instead of writing
+  if (args.check) return await checkOutput(outputPath, output);
 
-      rustOutput += `}\n\n`;
-    }
+  // Write to file
+  if (await writeFileIfChanged(outputPath, output)) {
+    console.log(`Types generated and saved to ${outputPath}`);
+  } else {
+    console.log(`✅ ${outputPath} is already up to date`);
+  }
+  return true;
+}
 
-    // Extract database name from connection string
-    let dbName = "db";
-    try {
-      // Parse the connection string to extract the database name
-      if (connectionString) {
-        const url = new URL(connectionString);
-        // The pathname starts with a slash, so we remove it and split by any query params
-        const pathParts = url.pathname.substring(1).split("?");
-        if (pathParts[0]) {
-          dbName = pathParts[0];
+// Keep regenerating with --watch and --poll until interrupted. The database
+// is introspected on every migration change and poll, and the output is only
+// rendered again when the schema fingerprint changed.
+async function watchTypes(
+  args: Args,
+  config: Config,
+  connectionString: string | undefined,
+) {
+  const controller = new AbortController();
+  const stop = () => controller.abort();
+  Deno.addSignalListener("SIGINT", stop);
+
+  let fingerprint: string | null = null;
+  let queue: Promise<void> = Promise.resolve();
+  // Runs one at a time; errors, e.g. while a migration is still being
+  // applied, are reported and the next change tries again
+  const regenerate = (reason: string, quiet = false) =>
+    queue = queue.then(async () => {
+      try {
+        const models = await introspectDatabase(args, connectionString, quiet);
+        const next = await schemaFingerprint(models);
+        if (next === fingerprint) {
+          if (!quiet) console.log(`Schema unchanged after ${reason}`);
+          return;
         }
+        fingerprint = next;
+        await writeTypes(
+          args,
+          config,
+          models,
+          getDatabaseName(connectionString),
+        );
+      } catch (error) {
+        console.error("Error:", error);
       }
-    } catch (_e) {
-      console.warn(
-        "Could not parse database name from connection string, using default name",
-      );
-    }
+    });
+
+  await regenerate("starting");
+
+  const watching: Promise<void>[] = [];
+  if (args.watch) {
+    console.log(`Watching ${args.watch} for changes, press Ctrl+C to stop`);
+    watching.push(
+      watchChanges(
+        args.watch,
+        (paths) => regenerate(`${paths.length} changed file(s)`),
+        { signal: controller.signal },
+      ),
+    );
+  }
+  if (args.poll) {
+    const interval = setInterval(
+      () => regenerate("polling", true),
+      Number(args.poll) * 1000,
+    );
+    watching.push(
+      new Promise((resolve) =>
+        controller.signal.addEventListener("abort", () => {
+          clearInterval(interval);
+          resolve();
+        })
+      ),
+    );
+  }
 
-    // Determine output path based on command-line arguments
-    let outputPath: string;
-
-    if (args.output) {
-      // If full output path is specified, use it directly
-      outputPath = args.output;
-    } else {
-      // Determine output directory
-      const outputDir = args.dir || Deno.cwd();
-
-      // Determine output filename
-      let outputFilename: string;
-      if (args.name) {
-        outputFilename = args.name;
-      } else {
-        outputFilename = `${dbName}_types.rs`;
-      }
+  await Promise.all(watching);
+  await queue;
+  Deno.removeSignalListener("SIGINT", stop);
+}
+
+// Load a diff source: the requested schemas of a database given by its
+// postgres:// URL, or of a snapshot file
+async function loadSchemas(
+  args: Args,
+  source: string,
+): Promise<SchemaModel[]> {
+  if (/^postgres(ql)?:\/\//.test(source)) {
+    return await introspectDatabase(args, source, true);
+  }
+  const { schemas } = await readSnapshot(source);
+  const requested = getRequestedSchemas(args);
+  return args["all-schemas"]
+    ? schemas
+    : schemas.filter((schema) => requested.includes(schema.name));
+}
+
+// Compare the schemas of two sources, the second defaulting to DATABASE_URL.
+// Returns false when changes break the Rust types generated with the config
+// and options.
+async function diffSources(
+  args: Args,
+  config: Config,
+  connectionString: string | undefined,
+): Promise<boolean> {
+  const [from, to = connectionString as string] = args._.slice(1).map(String);
+  const changes = diff(
+    await loadSchemas(args, from),
+    await loadSchemas(args, to),
+    { ...toRenderOptions(args), config },
+  );
+
+  if (args.format === "json") {
+    const breaking = changes.filter((change) => change.breaking).length;
+    console.log(JSON.stringify({ breaking, changes }, null, 2));
+  } else {
+    console.log(formatSchemaDiff(changes).trimEnd());
+  }
+  return !changes.some((change) => change.breaking);
+}
+
+// Check the schema of the database, or of the snapshot given with
+// --from-snapshot, against the lint rules. Returns false when a rule with
+// severity error fails.
+async function lintSchema(
+  args: Args,
+  config: Config,
+  connectionString: string | undefined,
+): Promise<boolean> {
+  const snapshotPath = args["from-snapshot"];
+  let models: SchemaModel[];
+  let snapshotText: string | undefined;
+  if (snapshotPath) {
+    snapshotText = await Deno.readTextFile(snapshotPath);
+    models = parseSnapshot(snapshotText).schemas;
+  } else {
+    models = await introspectDatabase(args, connectionString, true);
+  }
+
+  const findings = lint(models, { ...toRenderOptions(args), config });
+  if (args.format === "sarif") {
+    // Results point into the snapshot when there is one
+    const snapshot = snapshotPath
+      ? { uri: snapshotPath, text: snapshotText! }
+      : undefined;
+    console.log(JSON.stringify(toSarif(findings, snapshot), null, 2));
+  } else {
+    console.log(formatLintFindings(findings).trimEnd());
+  }
+  return !findings.some((finding) => finding.severity === "error");
+}
+
+// Run the command line, returning the exit code
+export async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+
+  // Show help if requested
+  if (args.help) {
+    printHelp();
+    return 0;
+  }
 
-      // Combine directory and filename
-      outputPath = join(outputDir, outputFilename);
+  // Load environment variables from .env file
+  await load({ export: true });
+
+  // The command to run, generating types unless another one is given.
+  // "analyze" is another name for "lint".
+  let command = args._.length > 0 ? String(args._[0]) : "generate";
+  if (command === "analyze") command = "lint";
+  if (!["generate", "snapshot", "diff", "lint"].includes(command)) {
+    console.error(`Unknown command: ${command}`);
+    return 1;
+  }
+
+  try {
+    validateRenderOptions(toRenderOptions(args));
+  } catch (error) {
+    console.error((error as Error).message);
+    return 1;
+  }
+  if (args["out-dir"] && (args.output || args.name)) {
+    console.error("--out-dir can't be combined with --output or --name");
+    return 1;
+  }
+  if (args.rustfmt && args.target !== "rust") {
+    console.error("--rustfmt is only supported for the Rust target");
+    return 1;
+  }
+  const watch = args.watch !== undefined || args.poll !== undefined;
+  if (watch && (command !== "generate" || args["from-snapshot"])) {
+    console.error(
+      "--watch and --poll introspect the database, they can't be combined with --from-snapshot, snapshot or diff",
+    );
+    return 1;
+  }
+  if (args.poll !== undefined && !(Number(args.poll) > 0)) {
+    console.error(`--poll needs a number of seconds, got ${args.poll}`);
+    return 1;
+  }
+
+  // Generating from a snapshot doesn't need a database connection
+  const connectionString = Deno.env.get("DATABASE_URL");
+  const needsDatabase = command === "diff"
+    ? args._.length < 3
+    : !(["generate", "lint"].includes(command) && args["from-snapshot"]);
+  if (!connectionString && needsDatabase) {
+    console.error("DATABASE_URL environment variable is not set");
+    return 1;
+  }
+
+  if (command === "diff") {
+    if (args._.length < 2 || args._.length > 3) {
+      console.error("Usage: diff <from> [<to>], each a URL or snapshot file");
+      return 1;
+    }
+    if (args.format !== "text" && args.format !== "json") {
+      console.error(`Unknown --format: ${args.format} (expected text or json)`);
+      return 1;
     }
+  }
+
+  if (command === "lint" && !["text", "sarif"].includes(args.format)) {
+    console.error(`Unknown --format: ${args.format} (expected text or sarif)`);
+    return 1;
+  }
+
+  let config: Config;
+  try {
+    // Nothing is written when only checking for drift, comparing or linting
+    config = await loadConfig(
+      args,
+      !args.check && !["diff", "lint"].includes(command),
+    );
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return 1;
+  }
 
-    // Write to file
-    await Deno.writeTextFile(outputPath, rustOutput);
-    console.log(`Rust types generated and saved to ${outputPath}`);
+  try {
+    if (command === "snapshot") {
+      await createSchemaSnapshot(args, connectionString);
+      return 0;
+    }
+    if (command === "diff") {
+      return await diffSources(args, config, connectionString) ? 0 : 1;
+    }
+    if (command === "lint") {
+      return await lintSchema(args, config, connectionString) ? 0 : 1;
+    }
+    if (watch) {
+      await watchTypes(args, config, connectionString);
+      return 0;
+    }
+    return await generateTypes(args, config, connectionString) ? 0 : 1;
   } catch (error) {
     console.error("Error:", error);
-  } finally {
-    await client.end();
+    return 1;
   }
 }
 
 if (import.meta.main) {
-  await generateRustTypes();
+  Deno.exit(await main(Deno.args));
 }
@@ -0,0 +1,59 @@
+// Markdown data dictionary generation from the introspected schema model
+
+import {
+  dataDictionary,
+  type DictionaryCell,
+  type DictionaryEntry,
+} from "./data_dictionary.ts";
+import type { Emitter, EmitterOptions } from "./emitter.ts";
+import type { SchemaModel } from "./introspect.ts";
+
+// Keep cell text on one table row. Pipes would end the cell early.
+function markdownCell(cell: DictionaryCell): string {
+  if (!cell.text) return "";
+  const text = cell.text.replaceAll("|", "\\|").replace(/\r?\n/g, "<br>");
+  return cell.code ? `\`${text}\`` : text;
+}
+
+function renderEntry(entry: DictionaryEntry): string {
+  let output = `### ${entry.kind} \`${entry.name}\`\n\n`;
+  if (entry.doc) output += `${entry.doc}\n\n`;
+
+  output += `| ${entry.header.join(" | ")} |\n`;
+  output += `|${entry.header.map(() => " --- |").join("")}\n`;
+  for (const row of entry.rows) {
+    output += `| ${row.map(markdownCell).join(" | ")} |\n`;
+  }
+  output += "\n";
+
+  for (const list of entry.lists) {
+    output += `**${list.title}**\n\n`;
+    output += list.items.map((item) => `- ${item}\n`).join("");
+    output += "\n";
+  }
+  return output;
+}
+
+// Render a Markdown data dictionary for the given schemas
+export function renderMarkdown(
+  schemas: SchemaModel[],
+  _options: EmitterOptions,
+): string {
+  let output =
+    "<!-- Generated data dictionary for PostgreSQL database -->\n\n" +
+    "# Data Dictionary\n\n";
+
+  for (const schema of dataDictionary(schemas)) {
+    output += `## Schema \`${schema.name}\`\n\n`;
+    if (schema.entries.length === 0) output += "No tables or types.\n\n";
+    output += schema.entries.map(renderEntry).join("");
+  }
+
+  return output.trimEnd() + "\n";
+}
+
+export const markdownEmitter: Emitter = {
+  defaultTypeMap: {},
+  defaultFilename: (database) => `${database}_schema.md`,
+  render: renderMarkdown,
+};
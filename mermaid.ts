@@ -0,0 +1,143 @@
+// Mermaid entity relationship diagram generation from the introspected
+// schema model
+
+import { parseComment } from "./comments.ts";
+import type { Emitter, EmitterOptions } from "./emitter.ts";
+import type {
+  ColumnInfo,
+  ConstraintInfo,
+  SchemaModel,
+  TableModel,
+} from "./introspect.ts";
+
+// Mermaid names are words: letters, digits, _ and -
+function mermaidName(name: string): string {
+  const word = name.replace(/[^A-Za-z0-9_-]/g, "_");
+  return /^[A-Za-z_]/.test(word) ? word : `_${word}`;
+}
+
+// Entity name of a table, qualified with its schema when there are several
+function entityName(
+  schemas: SchemaModel[],
+  schema: string,
+  table: string,
+): string {
+  return mermaidName(schemas.length > 1 ? `${schema}_${table}` : table);
+}
+
+// pg_type name of a column, with [] per array dimension
+function attributeType(column: ColumnInfo): string {
+  if (!column.elementType) return mermaidName(column.udtName);
+  return mermaidName(column.elementType) +
+    "[]".repeat(Math.max(column.dimensions, 1));
+}
+
+function renderAttribute(table: TableModel, column: ColumnInfo): string {
+  const keys = new Set<string>();
+  for (const constraint of table.constraints) {
+    if (!constraint.columns.includes(column.name)) continue;
+    keys.add(
+      { primary_key: "PK", foreign_key: "FK", unique: "UK" }[
+        constraint.type
+      ],
+    );
+  }
+
+  let line = `        ${attributeType(column)} ${mermaidName(column.name)}`;
+  if (keys.size > 0) line += ` ${[...keys].join(", ")}`;
+  // First line of the column comment, without quotes that would end it
+  const doc = parseComment(column.comment).doc?.split("\n")[0];
+  if (doc) line += ` "${doc.replaceAll('"', "'")}"`;
+  return line + "\n";
+}
+
+// Whether a constraint of the given types covers exactly these columns
+function hasKeyOn(
+  table: TableModel,
+  columns: string[],
+  types: ConstraintInfo["type"][],
+): boolean {
+  return table.constraints.some((constraint) =>
+    types.includes(constraint.type) &&
+    constraint.columns.length === columns.length &&
+    columns.every((column) => constraint.columns.includes(column))
+  );
+}
+
+// Relationship line for a foreign key: the referenced table has exactly one
+// row per referencing row, or at most one when a key column is nullable. A
+// unique foreign key makes it one-to-one; one that's part of the primary key
+// identifies the row and is drawn solid.
+function renderRelationship(
+  schemas: SchemaModel[],
+  schema: SchemaModel,
+  table: TableModel,
+  foreignKey: ConstraintInfo,
+): string {
+  const references = foreignKey.references!;
+  const nullable = foreignKey.columns.some((name) =>
+    table.columns.find((column) => column.name === name)?.isNullable
+  );
+  const parent = nullable ? "|o" : "||";
+  const child = hasKeyOn(table, foreignKey.columns, ["primary_key", "unique"])
+    ? "o|"
+    : "o{";
+  const primaryKey = table.constraints.find((constraint) =>
+    constraint.type === "primary_key"
+  );
+  const identifying = foreignKey.columns.every((column) =>
+    primaryKey?.columns.includes(column)
+  );
+
+  return `    ${
+    entityName(schemas, references.schema, references.table)
+  } ${parent}${identifying ? "--" : ".."}${child} ${
+    entityName(schemas, schema.name, table.name)
+  } : "${foreignKey.columns.join(", ")}"\n`;
+}
+
+// Render a Mermaid erDiagram of the tables and views and the foreign keys
+// between them
+export function renderMermaid(
+  schemas: SchemaModel[],
+  _options: EmitterOptions,
+): string {
+  const rendered = new Set(
+    schemas.flatMap((schema) =>
+      schema.tables.map((table) => `${schema.name}.${table.name}`)
+    ),
+  );
+
+  let entities = "";
+  let relationships = "";
+  for (const schema of schemas) {
+    for (const table of schema.tables) {
+      const name = entityName(schemas, schema.name, table.name);
+      // An entity without attributes has no block
+      entities += table.columns.length === 0
+        ? `    ${name}\n`
+        : `    ${name} {\n${
+          table.columns.map((column) => renderAttribute(table, column)).join("")
+        }    }\n`;
+
+      for (const constraint of table.constraints) {
+        const references = constraint.references;
+        // Tables left out of the diagram aren't drawn
+        if (
+          constraint.type !== "foreign_key" || !references ||
+          !rendered.has(`${references.schema}.${references.table}`)
+        ) continue;
+        relationships += renderRelationship(schemas, schema, table, constraint);
+      }
+    }
+  }
+
+  return "%% Generated entity relationship diagram for PostgreSQL database\n" +
+    `erDiagram\n${entities}${relationships}`;
+}
+
+export const mermaidEmitter: Emitter = {
+  defaultTypeMap: {},
+  defaultFilename: (database) => `${database}_erd.mmd`,
+  render: renderMermaid,
+};
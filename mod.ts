@@ -0,0 +1,346 @@
+// Programmatic API: introspect a database into the schema model and render
+// the model into generated files. main.ts is the command-line wrapper.
+
+import {
+  normalizeColumnOverrides,
+  resolveColumnOverrides,
+} from "./column_overrides.ts";
+import { parseComment } from "./comments.ts";
+import type { Config } from "./config.ts";
+import { DEFAULT_DIESEL_SQL_TYPE_MAP, dieselEmitter } from "./diesel.ts";
+import type { Emitter, EmitterOptions } from "./emitter.ts";
+import { createTableFilter } from "./filters.ts";
+import { htmlEmitter } from "./html.ts";
+import {
+  introspectSchemaModels,
+  introspectSchemas,
+  type QueryClient,
+  type RelationKind,
+  type SchemaModel,
+} from "./introspect.ts";
+import { markdownEmitter } from "./markdown.ts";
+import { mermaidEmitter } from "./mermaid.ts";
+import { rustEmitter } from "./rust.ts";
+import { diffSchemas, type SchemaChange } from "./schema_diff.ts";
+import { type LintFinding, lintSchemas } from "./schema_lint.ts";
+import {
+  DEFAULT_RUST_PRESETS,
+  RUST_TYPE_PRESETS,
+  rustTypeMap,
+  type RustTypePresets,
+} from "./type_map.ts";
+import { typescriptEmitter } from "./typescript.ts";
+import { zodEmitter } from "./zod.ts";
+
+export type { Config } from "./config.ts";
+export { defaultConfig, parseConfig, readConfig } from "./config.ts";
+export type {
+  QueryClient,
+  RelationKind,
+  SchemaModel,
+  TableModel,
+} from "./introspect.ts";
+export { formatRust } from "./rustfmt.ts";
+export {
+  type DiffOptions,
+  diffSchemas,
+  formatSchemaDiff,
+  type SchemaChange,
+} from "./schema_diff.ts";
+export {
+  formatLintFindings,
+  LINT_RULES,
+  type LintFinding,
+  type LintRuleId,
+  type LintSeverity,
+  toSarif,
+} from "./schema_lint.ts";
+export {
+  createSnapshot,
+  parseSnapshot,
+  readSnapshot,
+  serializeSnapshot,
+  type Snapshot,
+  writeSnapshot,
+} from "./snapshot.ts";
+export type { RustTypePresets } from "./type_map.ts";
+
+// Output backends selectable with the target option
+const EMITTERS: Record<string, Emitter> = {
+  rust: rustEmitter,
+  ts: typescriptEmitter,
+  zod: zodEmitter,
+  markdown: markdownEmitter,
+  html: htmlEmitter,
+  mermaid: mermaidEmitter,
+};
+
+export type Target = "rust" | "ts" | "zod" | "markdown" | "html" | "mermaid";
+
+export type IntrospectOptions = {
+  // Schemas to introspect (default: public), or "all" for every non-system
+  // schema
+  schemas?: string[] | "all";
+};
+
+export type RenderOptions = {
+  // Output backend (default: rust)
+  target?: Target;
+  // Parsed configuration file: type maps, special cases, relation filters
+  // and column overrides
+  config?: Config;
+  // Database name, used for the name of the generated file (default: db)
+  database?: string;
+  // Only render these schemas (default: every schema in the model)
+  schemas?: string[];
+  // Relation name filters, combined with those from the config
+  include?: string[];
+  exclude?: string[];
+  // Relation kinds to render (all default to true)
+  views?: boolean;
+  materializedViews?: boolean;
+  compositeTypes?: boolean;
+  // Use SQLx attributes instead of Serde (Rust only)
+  sqlx?: boolean;
+  // Render a Diesel schema and Queryable/Selectable structs (Rust only)
+  diesel?: boolean;
+  // Also render New<Table> insert and <Table>Patch update structs (Rust only)
+  writeStructs?: boolean;
+  // Wrap primary keys in newtype IDs (Rust only, not with diesel)
+  idNewtypes?: boolean;
+  // Array elements are nullable unless their type is a NOT NULL domain
+  nullableArrayElements?: boolean;
+  // Start the output with the use declarations it needs (default: true,
+  // single-file Rust only)
+  imports?: boolean;
+  // Crates for the built-in date, time and numeric types (Rust only)
+  presets?: Partial<RustTypePresets>;
+  // One file per type plus mod.rs instead of a single file (Rust only, not
+  // with diesel)
+  moduleTree?: boolean;
+  // Called for problems that were worked around, such as colliding names
+  warn?: (message: string) => void;
+};
+
+// Introspect the schemas through an open connection. Any client with a
+// queryObject method works, e.g. a deno-postgres Client or Pool client.
+export async function introspect(
+  client: QueryClient,
+  options: IntrospectOptions = {},
+): Promise<SchemaModel[]> {
+  const schemas = options.schemas === "all"
+    ? await introspectSchemas(client)
+    : options.schemas ?? ["public"];
+  return await introspectSchemaModels(client, schemas);
+}
+
+// Throw for option combinations render doesn't support, so callers can check
+// their options before connecting to a database
+export function validateRenderOptions(options: RenderOptions) {
+  const target = options.target ?? "rust";
+  const rust = target === "rust";
+  if (!EMITTERS[target]) {
+    throw new Error(
+      `Unknown target: ${target} (expected one of ${
+        Object.keys(EMITTERS).join(", ")
+      })`,
+    );
+  }
+  if (options.diesel && (!rust || options.sqlx)) {
+    throw new Error(
+      "diesel can't be combined with sqlx or a non-Rust target",
+    );
+  }
+  if (options.writeStructs && !rust) {
+    throw new Error("writeStructs is only supported for the Rust target");
+  }
+  if (options.idNewtypes && (!rust || options.diesel)) {
+    throw new Error(
+      "idNewtypes can't be combined with diesel or a non-Rust target",
+    );
+  }
+  for (const preset of ["types", "decimal"] as const) {
+    const value = options.presets?.[preset];
+    if (value === undefined) continue;
+    const presets: readonly string[] = RUST_TYPE_PRESETS[preset];
+    if (!presets.includes(value)) {
+      throw new Error(
+        `Unknown ${preset} preset: ${value} (expected one of ${
+          presets.join(", ")
+        })`,
+      );
+    }
+    if (!rust) {
+      throw new Error(
+        `${preset} presets are only supported for the Rust target`,
+      );
+    }
+  }
+  if (options.moduleTree && (!rust || options.diesel)) {
+    throw new Error(
+      "moduleTree is only supported for the Rust target without diesel",
+    );
+  }
+  if (options.imports === false && (!rust || options.moduleTree)) {
+    throw new Error(
+      "imports can't be turned off with moduleTree or a non-Rust target",
+    );
+  }
+}
+
+// Pick the requested schemas and relation kinds out of the model
+function selectSchemas(
+  models: SchemaModel[],
+  options: RenderOptions,
+): SchemaModel[] {
+  let selected = models;
+  if (options.schemas) {
+    selected = options.schemas.map((name) => {
+      const model = models.find((schema) => schema.name === name);
+      if (!model) {
+        throw new Error(`Schema "${name}" is not in the schema model`);
+      }
+      return model;
+    });
+  }
+
+  const includedKinds = new Set<RelationKind>(["table"]);
+  if (options.views ?? true) includedKinds.add("view");
+  if (options.materializedViews ?? true) {
+    includedKinds.add("materialized_view");
+  }
+
+  // Relation name filters from the config and the options, and @skip
+  // annotations in table comments
+  const isIncluded = createTableFilter(
+    [...(options.config?.include || []), ...(options.include || [])],
+    [...(options.config?.exclude || []), ...(options.exclude || [])],
+  );
+
+  return selected.map((schema) => ({
+    ...schema,
+    compositeTypes: (options.compositeTypes ?? true)
+      ? schema.compositeTypes
+      : [],
+    tables: schema.tables.filter((table) =>
+      includedKinds.has(table.kind) && isIncluded(schema.name, table.name) &&
+      !parseComment(table.comment, `Comment on ${schema.name}.${table.name}`)
+        .annotations.skip
+    ),
+  }));
+}
+
+// The target's built-in map, for Rust built from the selected crate presets,
+// overridden by the config
+function targetTypeMap(
+  target: Target,
+  emitter: Emitter,
+  options: RenderOptions,
+): Record<string, string> {
+  return {
+    ...(target === "rust"
+      ? rustTypeMap(
+        {
+          types: options.presets?.types ?? DEFAULT_RUST_PRESETS.types,
+          decimal: options.presets?.decimal ?? DEFAULT_RUST_PRESETS.decimal,
+        },
+        options.diesel ? "diesel" : "sqlx",
+      )
+      : emitter.defaultTypeMap),
+    ...options.config?.typeMaps?.[target],
+  };
+}
+
+// Render the schema model into files, keyed by the default filename for a
+// single file or by path relative to the output directory for moduleTree
+export function render(
+  models: SchemaModel[],
+  options: RenderOptions = {},
+): Map<string, string> {
+  validateRenderOptions(options);
+  const target = options.target ?? "rust";
+  const config = options.config;
+  // Diesel output is a variant of the Rust target
+  const emitter = options.diesel ? dieselEmitter : EMITTERS[target];
+  const typeMap = targetTypeMap(target, emitter, options);
+
+  // Overrides are checked against every relation in the model, so that
+  // filtering relations out doesn't turn their overrides into errors
+  const columnOverrides = resolveColumnOverrides(
+    models,
+    normalizeColumnOverrides(config?.columns),
+  );
+
+  const schemas = selectSchemas(models, options);
+  const emitterOptions: EmitterOptions = {
+    sqlx: options.sqlx,
+    typeMap,
+    specialCases: config?.specialCases,
+    writeStructs: options.writeStructs,
+    idNewtypes: options.idNewtypes,
+    nullableArrayElements: options.nullableArrayElements,
+    columnOverrides,
+    noImports: options.imports === false,
+    warn: options.warn,
+    sqlTypeMap: options.diesel
+      ? { ...DEFAULT_DIESEL_SQL_TYPE_MAP, ...config?.typeMaps?.diesel }
+      : undefined,
+  };
+
+  if (options.moduleTree && emitter.renderFiles) {
+    return emitter.renderFiles(schemas, emitterOptions);
+  }
+  return new Map([[
+    emitter.defaultFilename(options.database ?? "db"),
+    emitter.render(schemas, emitterOptions),
+  ]]);
+}
+
+// Check the selected schemas against the lint rules, with the severities
+// from the config. Column types and names are checked against the Rust type
+// map and overrides, whatever the target.
+export function lint(
+  models: SchemaModel[],
+  options: RenderOptions = {},
+): LintFinding[] {
+  const config = options.config;
+  return lintSchemas(selectSchemas(models, options), {
+    typeMap: targetTypeMap("rust", rustEmitter, options),
+    specialCases: config?.specialCases,
+    columnOverrides: resolveColumnOverrides(
+      models,
+      normalizeColumnOverrides(config?.columns),
+    ),
+    severities: config?.lint,
+  });
+}
+
+// Compare two versions of the schema model, with the schemas and relations
+// the options select. Breaking changes are judged by the Rust types rendered
+// with the options: the type map with its presets and the config, and column
+// overrides, whatever the target.
+export function diff(
+  fromModels: SchemaModel[],
+  toModels: SchemaModel[],
+  options: RenderOptions = {},
+): SchemaChange[] {
+  // Columns an override names may only exist on one side
+  const overrides = normalizeColumnOverrides(options.config?.columns);
+  // So may the requested schemas, which are reported as added or removed
+  // instead of being an error
+  const select = (models: SchemaModel[]) =>
+    selectSchemas(
+      models.filter((schema) =>
+        !options.schemas || options.schemas.includes(schema.name)
+      ),
+      { ...options, schemas: undefined },
+    );
+  return diffSchemas(select(fromModels), select(toModels), {
+    typeMap: targetTypeMap("rust", rustEmitter, options),
+    columnOverrides: {
+      from: resolveColumnOverrides(fromModels, overrides, false),
+      to: resolveColumnOverrides(toModels, overrides, false),
+    },
+    nullableArrayElements: options.nullableArrayElements,
+  });
+}
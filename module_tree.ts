@@ -0,0 +1,147 @@
+// Generated module trees for --out-dir: writing the files, checking them for
+// drift and removing files left over from dropped tables
+
+import { dirname, join } from "https://deno.land/std@0.220.1/path/mod.ts";
+import { unifiedDiff } from "./text_diff.ts";
+
+// First line of every generated file. Files without it are never
+// overwritten or removed.
+export const GENERATED_MARKER = "// @generated by db_analyzer";
+
+export type ModuleTreeChanges = {
+  // Files that were created or whose content changed
+  written: string[];
+  // Generated files that are no longer part of the tree
+  removed: string[];
+};
+
+export type ModuleTreeDrift = {
+  // Unified diffs of files whose content differs
+  changed: { path: string; diff: string }[];
+  missing: string[];
+  stale: string[];
+};
+
+// Read a file, null if it doesn't exist
+async function readExisting(path: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+}
+
+// Write a file unless it already has this content, so that tools like cargo
+// don't see a change. Returns true when the file was written.
+export async function writeFileIfChanged(
+  path: string,
+  content: string,
+): Promise<boolean> {
+  if (await readExisting(path) === content) return false;
+  await Deno.writeTextFile(path, content);
+  return true;
+}
+
+// Generated .rs files below dir, as paths relative to it. Symlinks aren't
+// followed.
+export async function listGeneratedFiles(dir: string): Promise<string[]> {
+  const found: string[] = [];
+  const walk = async (relative: string) => {
+    const entries: Deno.DirEntry[] = [];
+    try {
+      for await (const entry of Deno.readDir(join(dir, relative))) {
+        entries.push(entry);
+      }
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return;
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const path = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory) {
+        await walk(path);
+      } else if (entry.isFile && entry.name.endsWith(".rs")) {
+        const text = await Deno.readTextFile(join(dir, path));
+        if (text.startsWith(GENERATED_MARKER)) found.push(path);
+      }
+    }
+  };
+  await walk("");
+  return found.sort();
+}
+
+// Write the files below dir, leaving unchanged files alone, and remove
+// generated files that are no longer part of the tree. Existing files without
+// the generated marker are an error, so hand-written code is never touched.
+export async function writeModuleTree(
+  dir: string,
+  files: Map<string, string>,
+): Promise<ModuleTreeChanges> {
+  const existing = new Map<string, string | null>();
+  for (const path of files.keys()) {
+    const text = await readExisting(join(dir, path));
+    if (text !== null && !text.startsWith(GENERATED_MARKER)) {
+      throw new Error(
+        `${
+          join(dir, path)
+        } exists and wasn't generated by db_analyzer; move it or choose another --out-dir`,
+      );
+    }
+    existing.set(path, text);
+  }
+  const stale = (await listGeneratedFiles(dir)).filter((path) =>
+    !files.has(path)
+  );
+
+  const written: string[] = [];
+  for (const [path, content] of files) {
+    if (existing.get(path) === content) continue;
+    await Deno.mkdir(dirname(join(dir, path)), { recursive: true });
+    await Deno.writeTextFile(join(dir, path), content);
+    written.push(path);
+  }
+
+  for (const path of stale) {
+    await Deno.remove(join(dir, path));
+    // Remove directories the stale files leave empty, up to dir itself
+    let parent = dirname(path);
+    while (parent !== ".") {
+      try {
+        await Deno.remove(join(dir, parent));
+      } catch (_error) {
+        break; // Not empty
+      }
+      parent = dirname(parent);
+    }
+  }
+
+  return { written, removed: stale };
+}
+
+// Compare the files with those below dir without writing anything
+export async function diffModuleTree(
+  dir: string,
+  files: Map<string, string>,
+): Promise<ModuleTreeDrift> {
+  const drift: ModuleTreeDrift = { changed: [], missing: [], stale: [] };
+  for (const [path, content] of files) {
+    const existing = await readExisting(join(dir, path));
+    if (existing === null) {
+      drift.missing.push(path);
+    } else if (existing !== content) {
+      drift.changed.push({
+        path,
+        diff: unifiedDiff(existing, content, {
+          fromFile: join(dir, path),
+          toFile: `${join(dir, path)} (generated)`,
+        }),
+      });
+    }
+  }
+  drift.stale = (await listGeneratedFiles(dir)).filter((path) =>
+    !files.has(path)
+  );
+  return drift;
+}
@@ -0,0 +1,175 @@
+// Naming conventions for generated Rust identifiers
+
+// Convert PostgreSQL column name to Rust snake_case field name
+export function toRustFieldName(name: string): string {
+  // First convert camelCase to snake_case
+  const snakeCase = name
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2") // Convert camelCase to snake_case
+    .replace(/([A-Z])([A-Z][a-z])/g, "$1_$2") // Handle consecutive uppercase letters
+    .toLowerCase() // Convert to lowercase
+    .replace(/[^a-z0-9_]/g, "_"); // Replace non-alphanumeric chars with underscores
+
+  return snakeCase;
+}
+
+// Convert PostgreSQL table name to Rust PascalCase struct name
+export function toRustStructName(
+  name: string,
+  specialCases: Record<string, string> = {},
+): string {
+  // Check if this is a special case from mappings.json
+  const lowerName = name.toLowerCase();
+  if (specialCases[lowerName]) {
+    return specialCases[lowerName];
+  }
+
+  // Handle normal cases - split by non-alphanumeric characters and convert to PascalCase
+  // In an all-uppercase name like USER_PROFILES the parts are words, not acronyms
+  const allUppercase = name.toUpperCase() === name;
+  const pascalCase = name
+    .split(/[^a-zA-Z0-9]/) // Split on non-alphanumeric characters
+    .map((part) => {
+      if (!part) return "";
+
+      // Check if part is an acronym (all uppercase)
+      if (!allUppercase && part.toUpperCase() === part && part.length > 1) {
+        return part; // Keep acronyms as is
+      }
+
+      // Handle camelCase parts like "accountInfo" -> "AccountInfo"
+      const camelCaseParts = part.replace(/([a-z])([A-Z])/g, "$1 $2").split(
+        " ",
+      );
+      return camelCaseParts
+        .map((subPart) =>
+          subPart.charAt(0).toUpperCase() + subPart.slice(1).toLowerCase()
+        )
+        .join("");
+    })
+    .join("");
+  return toRustIdentifier(pascalCase, false);
+}
+
+// Convert a PostgreSQL schema name to the name of its Rust module
+export function toRustModuleName(name: string): string {
+  return toRustIdentifier(toRustFieldName(name), false);
+}
+
+// Strict and reserved keywords of the 2021 edition, and _
+const RUST_KEYWORDS = new Set([
+  "_",
+  "abstract",
+  "as",
+  "async",
+  "await",
+  "become",
+  "box",
+  "break",
+  "const",
+  "continue",
+  "crate",
+  "do",
+  "dyn",
+  "else",
+  "enum",
+  "extern",
+  "false",
+  "final",
+  "fn",
+  "for",
+  "if",
+  "impl",
+  "in",
+  "let",
+  "loop",
+  "macro",
+  "match",
+  "mod",
+  "move",
+  "mut",
+  "override",
+  "priv",
+  "pub",
+  "ref",
+  "return",
+  "self",
+  "Self",
+  "static",
+  "struct",
+  "super",
+  "trait",
+  "true",
+  "try",
+  "type",
+  "typeof",
+  "unsafe",
+  "unsized",
+  "use",
+  "virtual",
+  "where",
+  "while",
+  "yield",
+]);
+
+// Keywords that can't be raw identifiers either
+const NON_RAW_KEYWORDS = new Set(["_", "crate", "self", "Self", "super"]);
+
+// Make a name a valid Rust identifier. Names starting with a digit get an
+// underscore prefix. Keywords become raw identifiers (r#type), or get an
+// underscore suffix (type_) when raw is false or they can't be raw.
+export function toRustIdentifier(name: string, raw = true): string {
+  if (/^[0-9]/.test(name)) return `_${name}`;
+  if (!RUST_KEYWORDS.has(name)) return name;
+  return raw && !NON_RAW_KEYWORDS.has(name) ? `r#${name}` : `${name}_`;
+}
+
+// Identifier without its r# prefix, as serde and sqlx see it
+export function unraw(identifier: string): string {
+  return identifier.replace(/^r#/, "");
+}
+
+// A name that had to give up its preferred identifier to another
+export type IdentifierCollision = {
+  name: string;
+  // Name that kept the preferred identifier
+  keptBy: string;
+  preferred: string;
+  identifier: string;
+};
+
+// Give every name a unique identifier. Names matching their preferred
+// identifier keep it (user_id over userId), then names keep it in order;
+// the others get a numeric suffix (user_id_2).
+export function uniqueIdentifiers(
+  names: string[],
+  preferred: (name: string) => string,
+  separator = "_",
+): { identifiers: string[]; collisions: IdentifierCollision[] } {
+  const wanted = names.map(preferred);
+  const exact = (index: number) => unraw(wanted[index]) === names[index];
+  const order = names
+    .map((_name, index) => index)
+    .sort((a, b) => Number(exact(b)) - Number(exact(a)));
+
+  const identifiers: string[] = [];
+  const collisions: IdentifierCollision[] = [];
+  // Name owning each identifier, compared without r#
+  const owners = new Map<string, string>();
+  for (const index of order) {
+    let identifier = wanted[index];
+    for (let n = 2; owners.has(unraw(identifier)); n++) {
+      identifier = `${unraw(wanted[index])}${separator}${n}`;
+    }
+    if (identifier !== wanted[index]) {
+      collisions.push({
+        name: names[index],
+        keptBy: owners.get(unraw(wanted[index])) as string,
+        preferred: wanted[index],
+        identifier,
+      });
+    }
+    owners.set(unraw(identifier), names[index]);
+    identifiers[index] = identifier;
+  }
+  return { identifiers, collisions };
+}
@@ -0,0 +1,116 @@
+// Relations between tables from their primary and foreign keys: doc links to
+// referenced structs and newtype ID wrappers
+
+import type {
+  ColumnInfo,
+  ConstraintInfo,
+  SchemaModel,
+  TableModel,
+} from "./introspect.ts";
+import { toRustModuleName, toRustStructName } from "./naming.ts";
+
+// Newtype wrapping the primary key of a table
+export type IdType = {
+  // Name of the wrapper, e.g. "UsersId"
+  name: string;
+  // Primary key column it wraps
+  column: ColumnInfo;
+};
+
+// Name of the single primary key column of a table, null for tables with no
+// or a composite primary key
+export function singlePrimaryKey(table: TableModel): string | null {
+  const constraint = table.constraints.find((c) => c.type === "primary_key");
+  return constraint?.columns.length === 1 ? constraint.columns[0] : null;
+}
+
+// The foreign key a column is part of, if any
+export function columnForeignKey(
+  table: TableModel,
+  columnName: string,
+): ConstraintInfo | undefined {
+  return table.constraints.find((constraint) =>
+    constraint.type === "foreign_key" && constraint.references &&
+    constraint.columns.includes(columnName)
+  );
+}
+
+// Collect a newtype ID for every table with a single-column primary key,
+// keyed by "schema.table"
+export function collectIdTypes(
+  schemas: SchemaModel[],
+  specialCases: Record<string, string> = {},
+): Map<string, IdType> {
+  const idTypes = new Map<string, IdType>();
+  for (const schema of schemas) {
+    for (const table of schema.tables) {
+      const keyName = singlePrimaryKey(table);
+      const column = table.columns.find((c) => c.name === keyName);
+      if (!column) continue;
+      idTypes.set(`${schema.name}.${table.name}`, {
+        name: `${toRustStructName(table.name, specialCases)}Id`,
+        column,
+      });
+    }
+  }
+  return idTypes;
+}
+
+// Key of the newtype ID a column should use: its own table's for the primary
+// key, the referenced table's for a single-column foreign key to that key
+export function idTypeKey(
+  schema: SchemaModel,
+  table: TableModel,
+  column: ColumnInfo,
+  idTypes: Map<string, IdType>,
+): string | null {
+  if (singlePrimaryKey(table) === column.name) {
+    const key = `${schema.name}.${table.name}`;
+    return idTypes.has(key) ? key : null;
+  }
+
+  const foreignKey = columnForeignKey(table, column.name);
+  const references = foreignKey?.references;
+  if (!foreignKey || !references || foreignKey.columns.length !== 1) {
+    return null;
+  }
+  const key = `${references.schema}.${references.table}`;
+  return idTypes.get(key)?.column.name === references.columns[0] ? key : null;
+}
+
+// Doc comment line linking a foreign key column to the struct of the table it
+// references. Tables that aren't rendered are named instead of linked. Links
+// are relative to the schema's module, or to a module inside it with a
+// modulePrefix of "super::".
+export function referenceDoc(
+  schemas: SchemaModel[],
+  schema: SchemaModel,
+  table: TableModel,
+  column: ColumnInfo,
+  specialCases: Record<string, string> = {},
+  modulePrefix = "",
+): string | null {
+  const foreignKey = columnForeignKey(table, column.name);
+  const references = foreignKey?.references;
+  if (!foreignKey || !references) return null;
+
+  const referencedColumn =
+    references.columns[foreignKey.columns.indexOf(column.name)];
+  const target = schemas
+    .find((s) => s.name === references.schema)
+    ?.tables.find((t) => t.name === references.table);
+  if (!target) {
+    return `References \`${references.schema}.${references.table}.${referencedColumn}\``;
+  }
+
+  const structName = toRustStructName(target.name, specialCases);
+  const path = schemas.length > 1 && references.schema !== schema.name
+    ? `${modulePrefix}super::${
+      toRustModuleName(references.schema)
+    }::${structName}`
+    : `${modulePrefix}${structName}`;
+  const link = path === structName
+    ? `[\`${structName}\`]`
+    : `[\`${structName}\`](${path})`;
+  return `References ${link} (\`${referencedColumn}\`)`;
+}
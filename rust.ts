@@ -0,0 +1,567 @@
+// Rust source generation from the introspected schema model
+
+import type { ColumnOverride } from "./column_overrides.ts";
+import {
+  buildUserTypeMap,
+  columnDocComment,
+  type Emitter,
+  type EmitterOptions,
+  enumVariants,
+  indent,
+  insertColumns,
+  refersTo,
+  renderRustImports,
+  type RustImport,
+  stripRustComments,
+  tableDocComment,
+  uniqueRustNames,
+  updateColumns,
+} from "./emitter.ts";
+import type { ColumnInfo, SchemaModel, TableModel } from "./introspect.ts";
+import { GENERATED_MARKER } from "./module_tree.ts";
+import {
+  toRustFieldName,
+  toRustIdentifier,
+  toRustModuleName,
+  toRustStructName,
+  unraw,
+} from "./naming.ts";
+import {
+  collectIdTypes,
+  type IdType,
+  idTypeKey,
+  referenceDoc,
+} from "./relations.ts";
+import { DEFAULT_TYPE_MAP, getRustType } from "./type_map.ts";
+
+// Names the generated code uses unqualified; everything else is written with
+// its full path
+const RUST_IMPORTS: RustImport[] = [
+  {
+    path: "serde::{Deserialize, Serialize}",
+    names: ["Deserialize", "Serialize"],
+  },
+];
+
+// A struct field rendered from a column
+type Field = {
+  column: ColumnInfo;
+  name: string;
+  type: string;
+  // Extra attributes, without #[...]
+  attributes: string[];
+  // Doc comment line linking a foreign key to the referenced struct
+  reference: string | null;
+};
+
+// Field names of columns, keyed by column name. Keywords become raw
+// identifiers and colliding names get a numeric suffix.
+function fieldNames(
+  columns: ColumnInfo[],
+  where: string,
+  options: EmitterOptions,
+  rename: (column: string) => string | undefined = () => undefined,
+): Map<string, string> {
+  return uniqueRustNames(
+    columns.map((column) => column.name),
+    (name) => toRustIdentifier(rename(name) || toRustFieldName(name)),
+    `Columns of ${where}`,
+    options,
+  );
+}
+
+// Render a struct field with its doc comments, rename attribute and any
+// extra attributes
+function renderField(
+  field: Field,
+  rename: "serde" | "sqlx" | null,
+): string {
+  const originalColumnName = field.column.name;
+
+  // Add field with doc comment
+  let output = columnDocComment(field.column, field.reference, "    ");
+
+  // Add rename attributes if field name is different from original column name
+  if (rename && unraw(field.name) !== originalColumnName.toLowerCase()) {
+    output += `    #[${rename}(rename = "${originalColumnName}")]\n`;
+  }
+  for (const attribute of field.attributes) {
+    output += `    #[${attribute}]\n`;
+  }
+
+  output += `    pub ${field.name}: ${field.type},\n`;
+  return output;
+}
+
+// Render the New<Table> insert struct and <Table>Patch update struct of a
+// table. Defaulted columns are optional on insert, every column is optional
+// on update, and columns that can't be written are left out.
+function renderWriteStructs(
+  table: TableModel,
+  name: string,
+  tableField: (column: ColumnInfo) => Field,
+  options: EmitterOptions,
+): string {
+  // The structs carry no sqlx derive, so with --sqlx they have no renames
+  const rename = options.sqlx ? null : "serde";
+  const skipNone = 'serde(skip_serializing_if = "Option::is_none")';
+  const header = options.sqlx ? "" : `#[serde(rename_all = "camelCase")]\n`;
+
+  let output = `/// Insertable row for \`${table.name}\`\n`;
+  output += `#[derive(Debug, Serialize, Deserialize)]\n${header}`;
+  output += `pub struct New${name} {\n`;
+  // Attributes from mappings.json only apply to the row struct
+  for (const { column, optional } of insertColumns(table)) {
+    const field = tableField(column);
+    output += renderField({
+      ...field,
+      type: optional && !column.isNullable
+        ? `Option<${field.type}>`
+        : field.type,
+      attributes: optional ? [skipNone] : [],
+    }, rename);
+  }
+  output += `}\n\n`;
+
+  output += `/// Partial update for \`${table.name}\`\n`;
+  output += `#[derive(Debug, Default, Serialize, Deserialize)]\n${header}`;
+  output += `pub struct ${name}Patch {\n`;
+  for (const column of updateColumns(table)) {
+    const field = tableField(column);
+    output += renderField({
+      ...field,
+      type: `Option<${field.type}>`,
+      attributes: [skipNone],
+    }, rename);
+  }
+  output += `}\n\n`;
+
+  return output;
+}
+
+// Render the newtype wrapping the primary key of a table
+function renderIdType(
+  idType: IdType,
+  table: TableModel,
+  typeMap: Record<string, string>,
+  options: EmitterOptions,
+): string {
+  const rustType = getRustType(
+    { ...idType.column, isNullable: false },
+    typeMap,
+  );
+  const copy = /^(i16|i32|i64|uuid::Uuid)$/.test(rustType) ? "Copy, " : "";
+
+  let output = `/// Primary key of \`${table.name}\`\n`;
+  if (options.sqlx) {
+    output +=
+      `#[derive(Debug, Clone, ${copy}PartialEq, Eq, Hash, Serialize, Deserialize, sqlx::Type)]\n`;
+    output += `#[sqlx(transparent)]\n`;
+  } else {
+    output +=
+      `#[derive(Debug, Clone, ${copy}PartialEq, Eq, Hash, Serialize, Deserialize)]\n`;
+  }
+  output += `#[serde(transparent)]\n`;
+  output += `pub struct ${idType.name}(pub ${rustType});\n\n`;
+  return output;
+}
+
+// Code generated for one enum, composite type or table
+type RustItem = {
+  // PostgreSQL name of the type or relation
+  source: string;
+  // What it was generated from, e.g. "enum" or "materialized view"
+  kind: string;
+  // Rust types the item defines, e.g. Users, UsersId, NewUsers, UsersPatch
+  names: string[];
+  code: string;
+};
+
+// Render the items of one schema. Paths to other modules are relative to the
+// schema's module, or to a module inside it with a modulePrefix of "super::".
+function renderSchemaItems(
+  schemas: SchemaModel[],
+  schema: SchemaModel,
+  options: EmitterOptions,
+  idTypes: Map<string, IdType>,
+  modulePrefix: string,
+): RustItem[] {
+  const specialCases = options.specialCases || {};
+  const structName = (name: string) => toRustStructName(name, specialCases);
+  const useModules = schemas.length > 1;
+  const items: RustItem[] = [];
+
+  // Enum and composite columns resolve to the generated types unless
+  // mapped explicitly. Types from other schemas are referenced through
+  // their module.
+  const typeMap = buildUserTypeMap(
+    schemas,
+    schema,
+    options,
+    (schemaName, typeName) =>
+      `${modulePrefix}super::${toRustModuleName(schemaName)}::${typeName}`,
+  );
+
+  // Types outside the default search path are schema-qualified
+  const sqlxTypeName = (typeName: string) =>
+    schema.name === "public" ? typeName : `${schema.name}.${typeName}`;
+
+  // Generate enums for PostgreSQL enum types. Without --sqlx the output
+  // doesn't depend on sqlx, so only --sqlx enums can be decoded from the
+  // database.
+  for (const enumInfo of schema.enums) {
+    const enumName = structName(enumInfo.name);
+    let code = "";
+
+    if (options.sqlx) {
+      code +=
+        `#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize, sqlx::Type)]\n`;
+      code += `#[sqlx(type_name = "${sqlxTypeName(enumInfo.name)}")]\n`;
+    } else {
+      // Serde attributes only
+      code +=
+        `#[derive(Debug, Clone, Copy, PartialEq, Eq, Serialize, Deserialize)]\n`;
+    }
+    code += `pub enum ${enumName} {\n`;
+
+    const variants = enumVariants(enumInfo, options);
+    for (const label of enumInfo.variants) {
+      const variantName = variants.get(label) as string;
+
+      // Variants are renamed back to their PostgreSQL label when it differs,
+      // for serde and, with --sqlx, for the database too
+      if (variantName !== label) {
+        code += `    #[serde(rename = "${label}")]\n`;
+        if (options.sqlx) code += `    #[sqlx(rename = "${label}")]\n`;
+      }
+
+      code += `    ${variantName},\n`;
+    }
+
+    code += `}\n\n`;
+    items.push({
+      source: enumInfo.name,
+      kind: "enum",
+      names: [enumName],
+      code,
+    });
+  }
+
+  // Generate structs for composite types
+  for (const compositeType of schema.compositeTypes) {
+    let code = "";
+    if (options.sqlx) {
+      // SQLx attributes only
+      code += `#[derive(Debug, Clone, Serialize, Deserialize, sqlx::Type)]\n`;
+      code += `#[sqlx(type_name = "${sqlxTypeName(compositeType.name)}")]\n`;
+    } else {
+      // Serde attributes only
+      code += `#[derive(Debug, Clone, Serialize, Deserialize)]\n`;
+      code += `#[serde(rename_all = "camelCase")]\n`;
+    }
+    code += `pub struct ${structName(compositeType.name)} {\n`;
+    const names = fieldNames(
+      compositeType.columns,
+      `composite type ${schema.name}.${compositeType.name}`,
+      options,
+    );
+    for (const column of compositeType.columns) {
+      code += renderField({
+        column,
+        name: names.get(column.name) as string,
+        type: getRustType(column, typeMap, options.nullableArrayElements),
+        attributes: [],
+        reference: null,
+      }, options.sqlx ? "sqlx" : "serde");
+    }
+    code += `}\n\n`;
+    items.push({
+      source: compositeType.name,
+      kind: "composite type",
+      names: [structName(compositeType.name)],
+      code,
+    });
+  }
+
+  for (const table of schema.tables) {
+    const tableName = table.name;
+    const itemNames = [structName(tableName)];
+    let code = "";
+
+    // Rust type of a column: its override from mappings.json, else its
+    // newtype ID where enabled, else the mapped type
+    const fieldType = (column: ColumnInfo, override?: ColumnOverride) => {
+      const wrap = (type: string) =>
+        column.isNullable ? `Option<${type}>` : type;
+      if (override?.type) return wrap(override.type);
+
+      const key = column.elementType
+        ? null
+        : idTypeKey(schema, table, column, idTypes);
+      if (!key) {
+        return getRustType(column, typeMap, options.nullableArrayElements);
+      }
+
+      const [keySchema] = key.split(".");
+      const idName = (idTypes.get(key) as IdType).name;
+      return wrap(
+        useModules && keySchema !== schema.name
+          ? `${modulePrefix}super::${toRustModuleName(keySchema)}::${idName}`
+          : idName,
+      );
+    };
+    const overrideFor = (columnName: string) =>
+      options.columnOverrides?.get(`${schema.name}.${tableName}.${columnName}`);
+    // The table as seen by its structs, without skipped columns
+    const structTable = {
+      ...table,
+      columns: table.columns.filter((column) =>
+        !overrideFor(column.name)?.skip
+      ),
+    };
+    const names = fieldNames(
+      structTable.columns,
+      `${schema.name}.${tableName}`,
+      options,
+      (columnName) => overrideFor(columnName)?.rename,
+    );
+    const tableField = (column: ColumnInfo): Field => {
+      const override = overrideFor(column.name);
+      return {
+        column,
+        name: names.get(column.name) as string,
+        type: fieldType(column, override),
+        attributes: override?.attributes || [],
+        reference: referenceDoc(
+          schemas,
+          schema,
+          table,
+          column,
+          specialCases,
+          modulePrefix,
+        ),
+      };
+    };
+
+    const ownIdType = idTypes.get(`${schema.name}.${tableName}`);
+    if (ownIdType) {
+      code += renderIdType(ownIdType, table, typeMap, options);
+      itemNames.push(ownIdType.name);
+    }
+
+    // Tables outside the default search path are schema-qualified
+    const qualifiedTableName = schema.name === "public"
+      ? tableName
+      : `${schema.name}.${tableName}`;
+
+    code += tableDocComment(table, "", table.kind !== "table");
+
+    // Views and materialized views get read-only structs
+    if (table.kind === "view") {
+      code += `/// Read-only view \`${qualifiedTableName}\`\n`;
+    } else if (table.kind === "materialized_view") {
+      code += `/// Read-only materialized view \`${qualifiedTableName}\`\n`;
+    }
+
+    // Generate struct
+    if (options.sqlx) {
+      // SQLx attributes only
+      code += `#[derive(Debug, Serialize, Deserialize, sqlx::FromRow)]\n`;
+      code += `#[sqlx(rename_all = "camelCase")]\n`;
+      if (table.kind === "table") {
+        code += `#[sqlx(table = "${qualifiedTableName}")]\n`;
+      }
+    } else {
+      // Serde attributes only
+      code += `#[derive(Debug, Serialize, Deserialize)]\n`;
+      code += `#[serde(rename_all = "camelCase")]\n`;
+      code += `#[serde(rename = "${tableName}")]\n`;
+    }
+    code += `pub struct ${structName(tableName)} {\n`;
+
+    for (const column of structTable.columns) {
+      code += renderField(
+        tableField(column),
+        options.sqlx ? "sqlx" : "serde",
+      );
+    }
+
+    code += `}\n\n`;
+
+    if (options.writeStructs && table.kind === "table") {
+      code += renderWriteStructs(
+        structTable,
+        structName(tableName),
+        tableField,
+        options,
+      );
+      itemNames.push(
+        `New${structName(tableName)}`,
+        `${structName(tableName)}Patch`,
+      );
+    }
+
+    items.push({
+      source: tableName,
+      kind: table.kind.replace("_", " "),
+      names: itemNames,
+      code,
+    });
+  }
+
+  return items;
+}
+
+// Render the Rust source for the given schemas
+export function renderRust(
+  schemas: SchemaModel[],
+  options: EmitterOptions,
+): string {
+  // With several schemas each one becomes its own module so that tables
+  // with the same name in different schemas don't collide
+  const useModules = schemas.length > 1;
+
+  // Newtype IDs for single-column primary keys, used by referencing tables
+  const idTypes = options.idNewtypes
+    ? collectIdTypes(schemas, options.specialCases)
+    : new Map<string, IdType>();
+
+  let body = "";
+  for (const schema of schemas) {
+    const schemaOutput = renderSchemaItems(
+      schemas,
+      schema,
+      options,
+      idTypes,
+      "",
+    ).map((item) => item.code).join("");
+
+    if (useModules) {
+      // Wrap the schema in its own module, indenting its contents. Its code
+      // reaches the imports of the file through super.
+      const glob = renderRustImports(schemaOutput, RUST_IMPORTS)
+        ? "    use super::*;\n\n"
+        : "";
+      body += `pub mod ${toRustModuleName(schema.name)} {\n${glob}${
+        indent(schemaOutput.trimEnd())
+      }\n}\n\n`;
+    } else {
+      body += schemaOutput;
+    }
+  }
+
+  let rustOutput = "// Generated Rust types for PostgreSQL database\n\n";
+  const imports = options.noImports
+    ? ""
+    : renderRustImports(body, RUST_IMPORTS);
+  if (imports) rustOutput += `${imports}\n`;
+  return rustOutput + body;
+}
+
+// Types from the same schema an item's code refers to, ignoring doc comments
+// and string literals
+function usedLocalTypes(item: RustItem, localNames: string[]): string[] {
+  const code = stripRustComments(item.code);
+  return localNames.filter((name) =>
+    !item.names.includes(name) && refersTo(code, name)
+  );
+}
+
+// Module name for an item's file, unique within its directory
+function itemModuleName(item: RustItem, taken: Set<string>): string {
+  const base = toRustIdentifier(toRustFieldName(item.source), false);
+  let name = base;
+  for (let n = 2; taken.has(name); n++) name = `${base}_${n}`;
+  taken.add(name);
+  return name;
+}
+
+// Render the Rust source as a module tree for --out-dir: a file per enum,
+// composite type and table, and a mod.rs declaring and re-exporting them.
+// With several schemas each gets its own directory below a root mod.rs.
+export function renderRustFiles(
+  schemas: SchemaModel[],
+  options: EmitterOptions,
+): Map<string, string> {
+  const useModules = schemas.length > 1;
+  const idTypes = options.idNewtypes
+    ? collectIdTypes(schemas, options.specialCases)
+    : new Map<string, IdType>();
+  const files = new Map<string, string>();
+
+  for (const schema of schemas) {
+    const dir = useModules ? `${toRustModuleName(schema.name)}/` : "";
+    const items = renderSchemaItems(
+      schemas,
+      schema,
+      options,
+      idTypes,
+      "super::",
+    );
+    const localNames = items.flatMap((item) => item.names);
+    const taken = new Set(["mod"]);
+
+    // Module name and defined types of each file, for mod.rs
+    const modules: [string, string[]][] = [];
+    for (const item of items) {
+      const moduleName = itemModuleName(item, taken);
+
+      let file = `${GENERATED_MARKER} from ${item.kind} \`${
+        useModules ? `${schema.name}.${item.source}` : item.source
+      }\`\n\n`;
+      let imports = renderRustImports(item.code, RUST_IMPORTS);
+      const used = usedLocalTypes(item, localNames).sort();
+      if (used.length === 1) {
+        imports += `use super::${used[0]};\n`;
+      } else if (used.length > 1) {
+        imports += `use super::{${used.join(", ")}};\n`;
+      }
+      if (imports) file += `${imports}\n`;
+      file += `${item.code.trimEnd()}\n`;
+      files.set(`${dir}${moduleName}.rs`, file);
+
+      modules.push([moduleName, [...item.names].sort()]);
+    }
+
+    // Sorted the way rustfmt orders them
+    modules.sort(([a], [b]) => a < b ? -1 : 1);
+    const declarations = modules
+      .map(([moduleName]) => `pub mod ${moduleName};\n`)
+      .join("");
+    const reexports = modules
+      .map(([moduleName, names]) =>
+        names.length === 1
+          ? `pub use ${moduleName}::${names[0]};\n`
+          : `pub use ${moduleName}::{${names.join(", ")}};\n`
+      )
+      .join("");
+
+    const moduleHeader = useModules
+      ? `${GENERATED_MARKER} from schema \`${schema.name}\`\n\n`
+      : `${GENERATED_MARKER}\n\n`;
+    files.set(
+      `${dir}mod.rs`,
+      `${moduleHeader}${declarations}${reexports ? `\n${reexports}` : ""}`,
+    );
+  }
+
+  if (useModules) {
+    const declarations = schemas
+      .map((schema) => `pub mod ${toRustModuleName(schema.name)};\n`)
+      .sort()
+      .join("");
+    files.set(
+      "mod.rs",
+      `${GENERATED_MARKER}\n\n${declarations}`,
+    );
+  }
+
+  return files;
+}
+
+export const rustEmitter: Emitter = {
+  defaultTypeMap: DEFAULT_TYPE_MAP,
+  defaultFilename: (database) => `${database}_types.rs`,
+  render: renderRust,
+  renderFiles: renderRustFiles,
+};
@@ -0,0 +1,31 @@
+// Formatting generated Rust code with rustfmt, when it's installed
+
+// Format Rust source with rustfmt, null when rustfmt isn't installed
+export async function formatRust(source: string): Promise<string | null> {
+  let child: Deno.ChildProcess;
+  try {
+    child = new Deno.Command("rustfmt", {
+      args: ["--edition", "2021"],
+      stdin: "piped",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+
+  const writer = child.stdin.getWriter();
+  await writer.write(new TextEncoder().encode(source));
+  await writer.close();
+
+  const { success, stdout, stderr } = await child.output();
+  if (!success) {
+    throw new Error(
+      `rustfmt failed on the generated code:\n${
+        new TextDecoder().decode(stderr)
+      }`,
+    );
+  }
+  return new TextDecoder().decode(stdout);
+}
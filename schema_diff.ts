@@ -0,0 +1,402 @@
+// Differences between two introspected schema models, for reviewing
+// migrations with the diff command
+
+import type { ColumnOverride } from "./column_overrides.ts";
+import { buildUserTypeMap, hasDefault, isReadOnlyColumn } from "./emitter.ts";
+import type {
+  ColumnInfo,
+  ConstraintInfo,
+  SchemaModel,
+  TableModel,
+} from "./introspect.ts";
+import { toRustModuleName } from "./naming.ts";
+import { DEFAULT_TYPE_MAP, getRustType } from "./type_map.ts";
+
+export type SchemaChange = {
+  change: "added" | "removed" | "changed";
+  object:
+    | "schema"
+    | "table"
+    | "view"
+    | "materialized_view"
+    | "composite_type"
+    | "column"
+    | "enum"
+    | "enum_variant"
+    | "constraint";
+  // Qualified name, e.g. "public.users.email"
+  name: string;
+  // What changed about a changed object: "kind", "type", "nullability" or
+  // "definition"
+  property?: string;
+  from?: string;
+  to?: string;
+  // The change breaks code using the generated Rust types, e.g. a field type
+  // going from T to Option<T>
+  breaking: boolean;
+  // Why the change is breaking, e.g. "String → Option<String>"
+  reason?: string;
+};
+
+export type DiffOptions = {
+  // Rust typeMap the fields are generated with (default: the built-in map)
+  typeMap?: Record<string, string>;
+  // Resolved per-column overrides of each side, keyed by
+  // "schema.table.column"
+  columnOverrides?: {
+    from?: Map<string, ColumnOverride>;
+    to?: Map<string, ColumnOverride>;
+  };
+  // Array elements are nullable unless their type is a NOT NULL domain
+  nullableArrayElements?: boolean;
+};
+
+// A schema model, the type maps its columns are generated with (the typeMap
+// plus its enums and composite types, per schema) and its column overrides
+type Side = {
+  schemas: Map<string, SchemaModel>;
+  typeMaps: Map<string, Record<string, string>>;
+  columnOverrides: Map<string, ColumnOverride>;
+  nullableArrayElements?: boolean;
+};
+
+function side(
+  models: SchemaModel[],
+  options: DiffOptions,
+  columnOverrides = new Map<string, ColumnOverride>(),
+): Side {
+  const typeMap = options.typeMap ?? DEFAULT_TYPE_MAP;
+  return {
+    schemas: new Map(models.map((schema) => [schema.name, schema])),
+    typeMaps: new Map(models.map((schema) => [
+      schema.name,
+      buildUserTypeMap(
+        models,
+        schema,
+        { typeMap },
+        (schemaName, typeName) =>
+          `${toRustModuleName(schemaName)}::${typeName}`,
+      ),
+    ])),
+    columnOverrides,
+    nullableArrayElements: options.nullableArrayElements,
+  };
+}
+
+// Rust type of a column's field on one side, like the Rust emitter: its
+// override type, else the mapped type. Null when the column is skipped.
+function fieldType(
+  side: Side,
+  schemaName: string,
+  owner: string,
+  column: ColumnInfo,
+  nullable = column.isNullable,
+): string | null {
+  const override = side.columnOverrides.get(`${owner}.${column.name}`);
+  if (override?.skip) return null;
+  if (override?.type) {
+    return nullable ? `Option<${override.type}>` : override.type;
+  }
+  return getRustType(
+    { ...column, isNullable: nullable },
+    side.typeMaps.get(schemaName)!,
+    side.nullableArrayElements,
+  );
+}
+
+// Names in either list, in order of first appearance
+function union(from: string[], to: string[]): string[] {
+  return [...new Set([...from, ...to])];
+}
+
+function describeConstraint(constraint: ConstraintInfo): string {
+  const columns = constraint.columns.join(", ");
+  const type = constraint.type.replace("_", " ");
+  if (!constraint.references) return `${type} (${columns})`;
+  const { schema, table, columns: referenced } = constraint.references;
+  return `${type} (${columns}) references ${schema}.${table} (${
+    referenced.join(", ")
+  })`;
+}
+
+// Compare the columns of a table or composite type present on both sides.
+// insertable is whether rows are inserted into it, i.e. it is a table.
+function diffColumns(
+  schemaName: string,
+  name: string,
+  from: { columns: ColumnInfo[] },
+  to: { columns: ColumnInfo[] },
+  insertable: boolean,
+  sides: { from: Side; to: Side },
+  changes: SchemaChange[],
+) {
+  const fromColumns = new Map(from.columns.map((c) => [c.name, c]));
+  const toColumns = new Map(to.columns.map((c) => [c.name, c]));
+
+  for (
+    const columnName of union([...fromColumns.keys()], [...toColumns.keys()])
+  ) {
+    const qualified = `${name}.${columnName}`;
+    const before = fromColumns.get(columnName);
+    const after = toColumns.get(columnName);
+    if (!before || !after) {
+      const column = (before ?? after)!;
+      // Code reading the removed field no longer compiles, and inserts, such
+      // as New<Table> structs, need a value for an added NOT NULL column
+      // without a default
+      const removedField = before &&
+        fieldType(sides.from, schemaName, name, before) !== null;
+      const required = after && insertable && !after.isNullable &&
+        !hasDefault(after) && !isReadOnlyColumn(after);
+      changes.push({
+        change: before ? "removed" : "added",
+        object: "column",
+        name: qualified,
+        to: after?.formattedType,
+        from: before?.formattedType,
+        breaking: Boolean(removedField || required),
+        reason: removedField
+          ? `field ${column.name} is gone`
+          : required
+          ? "inserts need a value for it"
+          : undefined,
+      });
+      continue;
+    }
+
+    // Field types on both sides, optionally ignoring nullability. Changes to
+    // a skipped column don't break anything.
+    const change = (nullable?: boolean) => {
+      const fromRust = fieldType(
+        sides.from,
+        schemaName,
+        name,
+        before,
+        nullable,
+      );
+      const toRust = fieldType(sides.to, schemaName, name, after, nullable);
+      const breaking = fromRust !== null && fromRust !== toRust;
+      return {
+        breaking,
+        reason: breaking ? `${fromRust} → ${toRust ?? "no field"}` : undefined,
+      };
+    };
+
+    if (before.formattedType !== after.formattedType) {
+      changes.push({
+        change: "changed",
+        object: "column",
+        name: qualified,
+        property: "type",
+        from: before.formattedType,
+        to: after.formattedType,
+        ...change(false),
+      });
+    }
+    if (before.isNullable !== after.isNullable) {
+      changes.push({
+        change: "changed",
+        object: "column",
+        name: qualified,
+        property: "nullability",
+        from: before.isNullable ? "nullable" : "NOT NULL",
+        to: after.isNullable ? "nullable" : "NOT NULL",
+        ...change(),
+      });
+    }
+  }
+}
+
+function diffConstraints(
+  name: string,
+  from: TableModel,
+  to: TableModel,
+  changes: SchemaChange[],
+) {
+  const fromConstraints = new Map(from.constraints.map((c) => [c.name, c]));
+  const toConstraints = new Map(to.constraints.map((c) => [c.name, c]));
+  const names = union([...fromConstraints.keys()], [...toConstraints.keys()]);
+
+  for (const constraintName of names) {
+    const before = fromConstraints.get(constraintName);
+    const after = toConstraints.get(constraintName);
+    const fromText = before && describeConstraint(before);
+    const toText = after && describeConstraint(after);
+    if (fromText === toText) continue;
+    changes.push({
+      change: !before ? "added" : !after ? "removed" : "changed",
+      object: "constraint",
+      name: `${name}.${constraintName}`,
+      property: before && after ? "definition" : undefined,
+      from: fromText,
+      to: toText,
+      // Constraints don't change the generated row structs
+      breaking: false,
+    });
+  }
+}
+
+// Everything that differs between two schema models. Breaking changes are
+// judged by the Rust types generated with the options: removed types and
+// fields, fields whose type changes, and added columns inserts must set.
+export function diffSchemas(
+  fromModels: SchemaModel[],
+  toModels: SchemaModel[],
+  options: DiffOptions = {},
+): SchemaChange[] {
+  const sides = {
+    from: side(fromModels, options, options.columnOverrides?.from),
+    to: side(toModels, options, options.columnOverrides?.to),
+  };
+  const changes: SchemaChange[] = [];
+
+  const schemaNames = union(
+    fromModels.map((schema) => schema.name),
+    toModels.map((schema) => schema.name),
+  );
+  for (const schemaName of schemaNames) {
+    const fromSchema = sides.from.schemas.get(schemaName);
+    const toSchema = sides.to.schemas.get(schemaName);
+    if (!fromSchema || !toSchema) {
+      changes.push({
+        change: fromSchema ? "removed" : "added",
+        object: "schema",
+        name: schemaName,
+        breaking: !toSchema,
+        reason: toSchema ? undefined : "its types are gone",
+      });
+      continue;
+    }
+
+    // Enums
+    const fromEnums = new Map(fromSchema.enums.map((e) => [e.name, e]));
+    const toEnums = new Map(toSchema.enums.map((e) => [e.name, e]));
+    for (const enumName of union([...fromEnums.keys()], [...toEnums.keys()])) {
+      const name = `${schemaName}.${enumName}`;
+      const before = fromEnums.get(enumName);
+      const after = toEnums.get(enumName);
+      if (!before || !after) {
+        changes.push({
+          change: before ? "removed" : "added",
+          object: "enum",
+          name,
+          breaking: !after,
+          reason: after ? undefined : "the enum is gone",
+        });
+        continue;
+      }
+      for (const variant of union(before.variants, after.variants)) {
+        const removed = !after.variants.includes(variant);
+        if (!removed && before.variants.includes(variant)) continue;
+        changes.push({
+          change: removed ? "removed" : "added",
+          object: "enum_variant",
+          name: `${name}.${variant}`,
+          // Removed variants no longer exist, added ones make matches
+          // non-exhaustive
+          breaking: true,
+          reason: removed
+            ? "the variant is gone"
+            : "matches on the enum aren't exhaustive anymore",
+        });
+      }
+    }
+
+    // Composite types
+    const fromTypes = new Map(
+      fromSchema.compositeTypes.map((t) => [t.name, t]),
+    );
+    const toTypes = new Map(toSchema.compositeTypes.map((t) => [t.name, t]));
+    for (const typeName of union([...fromTypes.keys()], [...toTypes.keys()])) {
+      const name = `${schemaName}.${typeName}`;
+      const before = fromTypes.get(typeName);
+      const after = toTypes.get(typeName);
+      if (!before || !after) {
+        changes.push({
+          change: before ? "removed" : "added",
+          object: "composite_type",
+          name,
+          breaking: !after,
+          reason: after ? undefined : "the struct is gone",
+        });
+        continue;
+      }
+      diffColumns(schemaName, name, before, after, false, sides, changes);
+    }
+
+    // Tables, views and materialized views
+    const fromTables = new Map(fromSchema.tables.map((t) => [t.name, t]));
+    const toTables = new Map(toSchema.tables.map((t) => [t.name, t]));
+    for (
+      const tableName of union([...fromTables.keys()], [...toTables.keys()])
+    ) {
+      const name = `${schemaName}.${tableName}`;
+      const before = fromTables.get(tableName);
+      const after = toTables.get(tableName);
+      if (!before || !after) {
+        changes.push({
+          change: before ? "removed" : "added",
+          object: (before ?? after)!.kind,
+          name,
+          breaking: !after,
+          reason: after ? undefined : "the struct is gone",
+        });
+        continue;
+      }
+      if (before.kind !== after.kind) {
+        changes.push({
+          change: "changed",
+          object: after.kind,
+          name,
+          property: "kind",
+          from: before.kind,
+          to: after.kind,
+          // Views have no insert and update structs
+          breaking: before.kind === "table",
+          reason: before.kind === "table"
+            ? "there are no insert and update structs for views"
+            : undefined,
+        });
+      }
+      diffColumns(
+        schemaName,
+        name,
+        before,
+        after,
+        after.kind === "table",
+        sides,
+        changes,
+      );
+      diffConstraints(name, before, after, changes);
+    }
+  }
+
+  return changes;
+}
+
+// Human-readable diff: one line per change, + for added, - for removed and ~
+// for changed, with breaking changes marked
+export function formatSchemaDiff(changes: SchemaChange[]): string {
+  if (changes.length === 0) return "No schema changes\n";
+
+  const lines = changes.map((change) => {
+    const marker = { added: "+", removed: "-", changed: "~" }[change.change];
+    let line = `${marker} ${change.object.replace("_", " ")} ${change.name}`;
+    if (change.change === "changed") {
+      line += `: ${change.property} ${change.from} → ${change.to}`;
+    } else if (change.from ?? change.to) {
+      line += ` (${change.from ?? change.to})`;
+    }
+    if (change.breaking) {
+      line += `  ⚠️  breaking${change.reason ? `: ${change.reason}` : ""}`;
+    }
+    return line;
+  });
+
+  const breaking = changes.filter((change) => change.breaking).length;
+  lines.push(
+    "",
+    `${changes.length} change(s), ${breaking} breaking the generated Rust types`,
+  );
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,359 @@
+// Schema lint rules for the lint command: design problems in the schema and
+// columns that don't generate the Rust types one would expect
+
+import type { ColumnOverride } from "./column_overrides.ts";
+import { buildUserTypeMap } from "./emitter.ts";
+import type { ColumnInfo, SchemaModel, TableModel } from "./introspect.ts";
+import { type JsonPath, parseJsonSource } from "./json_source.ts";
+import {
+  toRustFieldName,
+  toRustIdentifier,
+  toRustModuleName,
+  unraw,
+} from "./naming.ts";
+import { findMappedType } from "./type_map.ts";
+
+// "off" disables a rule. The others are SARIF result levels.
+export type LintSeverity = "error" | "warning" | "note" | "off";
+
+export const LINT_RULES = {
+  "missing-primary-key": {
+    description: "Tables should have a primary key",
+    severity: "warning",
+  },
+  "unindexed-foreign-key": {
+    description:
+      "Foreign keys should have an index starting with their columns, so that deleting or updating referenced rows doesn't scan the table",
+    severity: "warning",
+  },
+  "timestamp-without-time-zone": {
+    description:
+      "Use timestamptz: timestamp without time zone doesn't say which time zone its values are in",
+    severity: "warning",
+  },
+  "nullable-boolean": {
+    description:
+      "Boolean columns should be NOT NULL: a nullable boolean has three states",
+    severity: "note",
+  },
+  "unbounded-varchar": {
+    description:
+      "varchar without a length is text under another name: use text, or give it a length",
+    severity: "note",
+  },
+  "field-name-round-trip": {
+    description:
+      "Column names should be the snake_case field names they generate, so that the fields need no rename attributes",
+    severity: "note",
+  },
+  "unmapped-type": {
+    description:
+      "Column types should have a typeMap entry instead of falling back to String",
+    severity: "warning",
+  },
+} satisfies Record<string, { description: string; severity: LintSeverity }>;
+
+export type LintRuleId = keyof typeof LINT_RULES;
+
+export const LINT_RULE_IDS = Object.keys(LINT_RULES) as LintRuleId[];
+
+export type LintFinding = {
+  rule: LintRuleId;
+  severity: Exclude<LintSeverity, "off">;
+  // Qualified name of the table, type, column or constraint, e.g.
+  // "public.users.email"
+  name: string;
+  message: string;
+  // Where the finding is in the schema model. Either table or compositeType
+  // is set, with a column or constraint of it.
+  location: {
+    schema: string;
+    table?: string;
+    compositeType?: string;
+    column?: string;
+    constraint?: string;
+  };
+};
+
+export type LintOptions = {
+  // Rust typeMap the columns are generated with, from the built-in map and
+  // mappings.json
+  typeMap: Record<string, string>;
+  specialCases?: Record<string, string>;
+  // Resolved per-column overrides, keyed by "schema.table.column". Columns
+  // with an override type or name, or skipped ones, aren't checked for
+  // unmapped types and field names.
+  columnOverrides?: Map<string, ColumnOverride>;
+  // Severities overriding the rules' defaults, from "lint" in mappings.json
+  severities?: Partial<Record<LintRuleId, LintSeverity>>;
+};
+
+// Whether an index can be used to look up rows by the given columns: its
+// leading key columns are those columns, in any order
+function hasIndexOn(table: TableModel, columns: string[]): boolean {
+  return (table.indexes ?? []).some((index) => {
+    const leading = index.columns.slice(0, columns.length);
+    return leading.length === columns.length &&
+      columns.every((column) => leading.includes(column));
+  });
+}
+
+// Check the schemas against the enabled rules. Tables get every rule and
+// composite types the column rules; views and materialized views only the
+// column type and name rules, their columns' design being their tables'.
+export function lintSchemas(
+  schemas: SchemaModel[],
+  options: LintOptions,
+): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const report = (
+    rule: LintRuleId,
+    name: string,
+    location: LintFinding["location"],
+    message: string,
+  ) => {
+    const severity = options.severities?.[rule] ?? LINT_RULES[rule].severity;
+    if (severity === "off") return;
+    findings.push({ rule, severity, name, message, location });
+  };
+
+  for (const schema of schemas) {
+    const typeMap = buildUserTypeMap(
+      schemas,
+      schema,
+      options,
+      (schemaName, typeName) => `${toRustModuleName(schemaName)}::${typeName}`,
+    );
+
+    // Rules for the columns of a table, view or composite type. Design rules
+    // don't apply to views, whose columns come from their tables.
+    const checkColumns = (
+      owner: string,
+      columns: ColumnInfo[],
+      location: LintFinding["location"],
+      design: boolean,
+    ) => {
+      for (const column of columns) {
+        const name = `${schema.name}.${owner}.${column.name}`;
+        const at = { ...location, column: column.name };
+        const type = column.elementType ?? column.udtName;
+
+        if (design && type === "timestamp") {
+          report(
+            "timestamp-without-time-zone",
+            name,
+            at,
+            `${name} is ${column.formattedType}, use timestamptz`,
+          );
+        }
+        if (design && type === "bool" && column.isNullable) {
+          report(
+            "nullable-boolean",
+            name,
+            at,
+            `${name} is a nullable boolean, generated as Option<bool>`,
+          );
+        }
+        if (design && type === "varchar" && column.typmod < 0) {
+          report(
+            "unbounded-varchar",
+            name,
+            at,
+            `${name} is varchar without a length, use text or set a length`,
+          );
+        }
+
+        const override = options.columnOverrides?.get(name);
+        if (override?.skip) continue;
+        const field = unraw(toRustIdentifier(toRustFieldName(column.name)));
+        if (!override?.rename && field !== column.name) {
+          report(
+            "field-name-round-trip",
+            name,
+            at,
+            `Column "${column.name}" of ${schema.name}.${owner} becomes field ${field}, which needs a rename attribute to map back to it`,
+          );
+        }
+        const typeSchema = column.elementSchema ?? column.udtSchema;
+        if (
+          !override?.type && !typeMap["default"] &&
+          !findMappedType(typeSchema, type, column.typmod, typeMap)
+        ) {
+          report(
+            "unmapped-type",
+            name,
+            at,
+            `${name} has type ${typeSchema}.${type}, which has no typeMap entry and falls back to String`,
+          );
+        }
+      }
+    };
+
+    for (const compositeType of schema.compositeTypes) {
+      checkColumns(compositeType.name, compositeType.columns, {
+        schema: schema.name,
+        compositeType: compositeType.name,
+      }, true);
+    }
+
+    for (const table of schema.tables) {
+      const name = `${schema.name}.${table.name}`;
+      const location = { schema: schema.name, table: table.name };
+      const isTable = table.kind === "table";
+
+      if (
+        isTable &&
+        !table.constraints.some((constraint) =>
+          constraint.type === "primary_key"
+        )
+      ) {
+        report(
+          "missing-primary-key",
+          name,
+          location,
+          `Table ${name} has no primary key`,
+        );
+      }
+
+      // Snapshots from older versions have no indexes to check against
+      for (
+        const constraint of isTable && table.indexes ? table.constraints : []
+      ) {
+        if (
+          constraint.type !== "foreign_key" ||
+          hasIndexOn(table, constraint.columns)
+        ) continue;
+        const { schema: referencedSchema, table: referenced } = constraint
+          .references!;
+        report(
+          "unindexed-foreign-key",
+          `${name}.${constraint.name}`,
+          { ...location, constraint: constraint.name },
+          `Foreign key ${constraint.name} on ${name} (${
+            constraint.columns.join(", ")
+          }) has no index, so deleting or updating rows of ${referencedSchema}.${referenced} scans ${name}`,
+        );
+      }
+
+      checkColumns(table.name, table.columns, location, isTable);
+    }
+  }
+
+  return findings;
+}
+
+// Number of findings with the given severity
+function countOf(findings: LintFinding[], severity: LintSeverity): number {
+  return findings.filter((finding) => finding.severity === severity).length;
+}
+
+// Human-readable report: one line per finding, then a summary
+export function formatLintFindings(findings: LintFinding[]): string {
+  if (findings.length === 0) return "No problems found\n";
+
+  const lines = findings.map((finding) =>
+    `${finding.severity}: ${finding.message} [${finding.rule}]`
+  );
+  lines.push(
+    "",
+    `${findings.length} problem(s): ${countOf(findings, "error")} error(s), ${
+      countOf(findings, "warning")
+    } warning(s), ${countOf(findings, "note")} note(s)`,
+  );
+  return lines.join("\n") + "\n";
+}
+
+// Path of a finding's object in a snapshot, found by name. Null when the
+// snapshot doesn't have it.
+function snapshotPath(
+  snapshot: { schemas?: SchemaModel[] },
+  location: LintFinding["location"],
+): JsonPath | null {
+  const schemaIndex = (snapshot.schemas ?? []).findIndex((schema) =>
+    schema.name === location.schema
+  );
+  if (schemaIndex < 0) return null;
+  const schema = snapshot.schemas![schemaIndex];
+
+  const [key, owners, ownerName] = location.table !== undefined
+    ? ["tables", schema.tables, location.table]
+    : ["compositeTypes", schema.compositeTypes, location.compositeType];
+  const ownerIndex = owners.findIndex((owner) => owner.name === ownerName);
+  if (ownerIndex < 0) return null;
+  const path: JsonPath = ["schemas", schemaIndex, key, ownerIndex];
+
+  if (location.column !== undefined) {
+    const index = owners[ownerIndex].columns.findIndex((column) =>
+      column.name === location.column
+    );
+    return index < 0 ? path : [...path, "columns", index];
+  }
+  if (location.constraint !== undefined && location.table !== undefined) {
+    const index = schema.tables[ownerIndex].constraints.findIndex(
+      (constraint) => constraint.name === location.constraint,
+    );
+    return index < 0 ? path : [...path, "constraints", index];
+  }
+  return path;
+}
+
+// SARIF 2.1.0 log of the findings, for code scanning and review tools. When
+// the schema came from a snapshot file, pass its path and text so that the
+// results point at the objects in it; otherwise results only have logical
+// locations.
+export function toSarif(
+  findings: LintFinding[],
+  snapshot?: { uri: string; text: string },
+): Record<string, unknown> {
+  const source = snapshot && parseJsonSource(snapshot.text, snapshot.uri);
+
+  const results = findings.map((finding) => {
+    const kind = finding.location.column !== undefined
+      ? "member"
+      : finding.location.constraint !== undefined
+      ? "declaration"
+      : "type";
+    const location: Record<string, unknown> = {
+      logicalLocations: [{ fullyQualifiedName: finding.name, kind }],
+    };
+
+    const path = source &&
+      snapshotPath(
+        source.value as { schemas?: SchemaModel[] },
+        finding.location,
+      );
+    if (path) {
+      const { line, column } = source.locate(path);
+      location.physicalLocation = {
+        artifactLocation: { uri: snapshot!.uri },
+        region: { startLine: line, startColumn: column },
+      };
+    }
+
+    return {
+      ruleId: finding.rule,
+      ruleIndex: LINT_RULE_IDS.indexOf(finding.rule),
+      level: finding.severity,
+      message: { text: finding.message },
+      locations: [location],
+    };
+  });
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "db_analyzer",
+          rules: LINT_RULE_IDS.map((id) => ({
+            id,
+            shortDescription: { text: LINT_RULES[id].description },
+            defaultConfiguration: { level: LINT_RULES[id].severity },
+          })),
+        },
+      },
+      results,
+    }],
+  };
+}
@@ -0,0 +1,60 @@
+// Versioned JSON snapshots of the introspected schema, used to generate types
+// without a database connection
+
+import type { SchemaModel } from "./introspect.ts";
+
+// Bump when the snapshot layout changes incompatibly
+export const SNAPSHOT_VERSION = 1;
+
+export type Snapshot = {
+  version: number;
+  // Database name, used for the default output filename
+  database: string;
+  schemas: SchemaModel[];
+};
+
+// Build a snapshot from introspected schemas
+export function createSnapshot(
+  database: string,
+  schemas: SchemaModel[],
+): Snapshot {
+  return { version: SNAPSHOT_VERSION, database, schemas };
+}
+
+// Parse and validate snapshot JSON
+export function parseSnapshot(text: string): Snapshot {
+  const snapshot = JSON.parse(text);
+
+  if (typeof snapshot !== "object" || snapshot === null) {
+    throw new Error("Snapshot must be a JSON object");
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new Error(
+      `Unsupported snapshot version ${snapshot.version}, expected ${SNAPSHOT_VERSION}`,
+    );
+  }
+  if (typeof snapshot.database !== "string") {
+    throw new Error("Snapshot is missing the database name");
+  }
+  if (!Array.isArray(snapshot.schemas)) {
+    throw new Error("Snapshot is missing the schemas list");
+  }
+
+  return snapshot as Snapshot;
+}
+
+// Serialize a snapshot with stable formatting so that it diffs cleanly
+export function serializeSnapshot(snapshot: Snapshot): string {
+  return JSON.stringify(snapshot, null, 2) + "\n";
+}
+
+export async function readSnapshot(path: string): Promise<Snapshot> {
+  return parseSnapshot(await Deno.readTextFile(path));
+}
+
+export async function writeSnapshot(
+  path: string,
+  snapshot: Snapshot,
+): Promise<void> {
+  await Deno.writeTextFile(path, serializeSnapshot(snapshot));
+}
@@ -1,7 +1,25 @@
-import { assertEquals } from "https://deno.land/std@0.220.1/assert/mod.ts";
+import {
+  assertEquals,
+  assertStringIncludes,
+} from "https://deno.land/std@0.220.1/assert/mod.ts";
 import { join } from "https://deno.land/std@0.220.1/path/mod.ts";
 import { exists } from "https://deno.land/std@0.220.1/fs/exists.ts";
-import { parse } from "https://deno.land/std@0.220.1/flags/mod.ts";
+import { CONFIG_VERSION } from "../config.ts";
+import { main, parseArgs } from "../main.ts";
+
+// Snapshot fixture, so the CLI runs without a database
+const fixturePath = join(Deno.cwd(), "tests", "fixtures", "blog_snapshot.json");
+
+// Run the CLI with testDir as the working directory
+async function runIn(testDir: string, argv: string[]): Promise<number> {
+  const cwd = Deno.cwd();
+  Deno.chdir(testDir);
+  try {
+    return await main(argv);
+  } finally {
+    Deno.chdir(cwd);
+  }
+}
 
 // Test the automatic generation of mappings.json
 Deno.test("Automatically generate mappings.json if it doesn't exist", async () => {
@@ -20,148 +38,218 @@ Deno.test("Automatically generate mappings.json if it doesn't exist", async () =
     // Ignore if file doesn't exist
   }
 
-  // Create default mappings
-  const mappings = {
-    typeMap: {
-      "int2": "i16",
-      "int4": "i32",
-      "int8": "i64",
-      "float4": "f32",
-      "float8": "f64",
-      "numeric": "f64",
-      "bool": "bool",
-      "varchar": "String",
-      "char": "String",
-      "text": "String",
-      "uuid": "uuid::Uuid",
-      "date": "chrono::NaiveDate",
-      "timestamp": "chrono::NaiveDateTime",
-      "timestamptz": "chrono::DateTime<chrono::Utc>",
-      "json": "serde_json::Value",
-      "jsonb": "serde_json::Value",
-    },
-    specialCases: {},
-  };
-
-  // Write default mappings to file
-  await Deno.writeTextFile(mappingsPath, JSON.stringify(mappings, null, 2));
+  // Generate types, which creates the default mappings.json
+  assertEquals(await runIn(testDir, ["--from-snapshot", fixturePath]), 0);
 
   // Check if the file exists
   const fileExists = await exists(mappingsPath);
   assertEquals(fileExists, true);
+  assertEquals(await exists(join(testDir, "blog_types.rs")), true);
 
   // Read the file and check its contents
   const content = await Deno.readTextFile(mappingsPath);
   const parsedContent = JSON.parse(content);
 
-  assertEquals(parsedContent.typeMap.int4, "i32");
-  assertEquals(parsedContent.typeMap.varchar, "String");
-  assertEquals(parsedContent.typeMap.uuid, "uuid::Uuid");
+  assertEquals(parsedContent.version, CONFIG_VERSION);
+  assertEquals(parsedContent.typeMaps, { rust: {} });
 
   // Clean up
   await Deno.remove(testDir, { recursive: true });
 });
 
+// Test generating and checking output through the CLI
+Deno.test("The CLI writes output and reports drift with --check", async () => {
+  const testDir = await Deno.makeTempDir();
+  const configPath = join(testDir, "mappings.json");
+  const outputPath = join(testDir, "db.rs");
+  await Deno.writeTextFile(
+    configPath,
+    JSON.stringify({ version: CONFIG_VERSION }),
+  );
+  const argv = [
+    "--from-snapshot",
+    fixturePath,
+    "--config",
+    configPath,
+    "--output",
+    outputPath,
+  ];
+
+  try {
+    assertEquals(await main(argv), 0);
+    assertStringIncludes(
+      await Deno.readTextFile(outputPath),
+      "pub struct Users {",
+    );
+    assertEquals(await main([...argv, "--check"]), 0);
+
+    await Deno.writeTextFile(outputPath, "// edited\n");
+    assertEquals(await main([...argv, "--check"]), 1);
+
+    // Unsupported combinations fail before anything is generated
+    assertEquals(await main([...argv, "--target", "ts", "--diesel"]), 1);
+    assertEquals(await main([...argv, "--target", "go"]), 1);
+    assertEquals(await Deno.readTextFile(outputPath), "// edited\n");
+  } finally {
+    await Deno.remove(testDir, { recursive: true });
+  }
+});
+
+// Test comparing snapshots
+Deno.test("diff exits non-zero only for breaking changes", async () => {
+  const testDir = await Deno.makeTempDir();
+  const snapshot = JSON.parse(await Deno.readTextFile(fixturePath));
+  const widened = join(testDir, "widened.json");
+  const nullable = join(testDir, "nullable.json");
+
+  try {
+    // A new table doesn't break anything
+    snapshot.schemas[0].tables.push({
+      ...snapshot.schemas[0].tables[0],
+      name: "archived_comments",
+    });
+    await Deno.writeTextFile(widened, JSON.stringify(snapshot));
+    assertEquals(await main(["diff", fixturePath, widened]), 0);
+
+    snapshot.schemas[0].tables[0].columns[1].isNullable = true;
+    await Deno.writeTextFile(nullable, JSON.stringify(snapshot));
+    assertEquals(await main(["diff", fixturePath, nullable]), 1);
+    assertEquals(
+      await main(["diff", fixturePath, nullable, "--format", "json"]),
+      1,
+    );
+    assertEquals(
+      await main(["diff", fixturePath, nullable, "--format", "x"]),
+      1,
+    );
+  } finally {
+    await Deno.remove(testDir, { recursive: true });
+  }
+});
+
+// Test linting a snapshot
+Deno.test("lint exits non-zero only when an error rule fails", async () => {
+  const testDir = await Deno.makeTempDir();
+
+  try {
+    // The fixture's findings are warnings and notes by default, and linting
+    // doesn't create mappings.json
+    assertEquals(
+      await runIn(testDir, ["lint", "--from-snapshot", fixturePath]),
+      0,
+    );
+    assertEquals(await exists(join(testDir, "mappings.json")), false);
+    assertEquals(
+      await runIn(testDir, [
+        "analyze",
+        "--from-snapshot",
+        fixturePath,
+        "--format",
+        "sarif",
+      ]),
+      0,
+    );
+    assertEquals(
+      await runIn(testDir, [
+        "lint",
+        "--from-snapshot",
+        fixturePath,
+        "--format",
+        "json",
+      ]),
+      1,
+    );
+
+    await Deno.writeTextFile(
+      join(testDir, "mappings.json"),
+      JSON.stringify({
+        version: CONFIG_VERSION,
+        lint: { "timestamp-without-time-zone": "error" },
+      }),
+    );
+    assertEquals(
+      await runIn(testDir, ["lint", "--from-snapshot", fixturePath]),
+      1,
+    );
+  } finally {
+    await Deno.remove(testDir, { recursive: true });
+  }
+});
+
 // Test command-line argument handling
 Deno.test("Command-line arguments determine output location", () => {
   // Test with no arguments (should use defaults)
-  const args1 = parse([], {
-    string: ["output", "dir", "name"],
-    boolean: ["help", "sqlx"],
-    alias: {
-      o: "output",
-      d: "dir",
-      n: "name",
-      h: "help",
-      s: "sqlx",
-    },
-    default: {
-      dir: "/test/dir",
-      sqlx: false,
-    },
-  });
+  const args1 = parseArgs([]);
 
   // Should use default directory
-  assertEquals(args1.dir, "/test/dir");
+  assertEquals(args1.dir, Deno.cwd());
   assertEquals(args1.sqlx, false);
   assertEquals(args1.help, false);
 
   // Test with output argument
-  const args2 = parse(["--output", "/path/to/output.rs"], {
-    string: ["output", "dir", "name"],
-    boolean: ["help", "sqlx"],
-    alias: {
-      o: "output",
-      d: "dir",
-      n: "name",
-      h: "help",
-      s: "sqlx",
-    },
-    default: {
-      dir: "/test/dir",
-      sqlx: false,
-    },
-  });
+  const args2 = parseArgs(["--output", "/path/to/output.rs"]);
 
   assertEquals(args2.output, "/path/to/output.rs");
 
   // Test with dir and name arguments
-  const args3 = parse(["--dir", "/custom/dir", "--name", "custom.rs"], {
-    string: ["output", "dir", "name"],
-    boolean: ["help", "sqlx"],
-    alias: {
-      o: "output",
-      d: "dir",
-      n: "name",
-      h: "help",
-      s: "sqlx",
-    },
-    default: {
-      dir: "/test/dir",
-      sqlx: false,
-    },
-  });
+  const args3 = parseArgs(["--dir", "/custom/dir", "--name", "custom.rs"]);
 
   assertEquals(args3.dir, "/custom/dir");
   assertEquals(args3.name, "custom.rs");
 
   // Test with sqlx flag
-  const args4 = parse(["--sqlx"], {
-    string: ["output", "dir", "name"],
-    boolean: ["help", "sqlx"],
-    alias: {
-      o: "output",
-      d: "dir",
-      n: "name",
-      h: "help",
-      s: "sqlx",
-    },
-    default: {
-      dir: "/test/dir",
-      sqlx: false,
-    },
-  });
+  const args4 = parseArgs(["--sqlx"]);
 
   assertEquals(args4.sqlx, true);
 
   // Test with alias
-  const args5 = parse(["-s", "-d", "/alias/dir", "-n", "alias.rs"], {
-    string: ["output", "dir", "name"],
-    boolean: ["help", "sqlx"],
-    alias: {
-      o: "output",
-      d: "dir",
-      n: "name",
-      h: "help",
-      s: "sqlx",
-    },
-    default: {
-      dir: "/test/dir",
-      sqlx: false,
-    },
-  });
+  const args5 = parseArgs(["-s", "-d", "/alias/dir", "-n", "alias.rs"]);
 
   assertEquals(args5.sqlx, true);
   assertEquals(args5.dir, "/alias/dir");
   assertEquals(args5.name, "alias.rs");
 });
+
+// Test repeatable schema options
+Deno.test("Schema options can be repeated", () => {
+  const args1 = parseArgs(["--schema", "billing", "--schema", "auth"]);
+  assertEquals(args1.schema, ["billing", "auth"]);
+  assertEquals(args1["all-schemas"], false);
+
+  const args2 = parseArgs([]);
+  assertEquals(args2.schema, []);
+
+  const args3 = parseArgs(["--all-schemas"]);
+  assertEquals(args3["all-schemas"], true);
+});
+
+// Test repeatable relation filters
+Deno.test("Include and exclude patterns can be repeated", () => {
+  const args1 = parseArgs([
+    "--include",
+    "public.*",
+    "--exclude",
+    "*._sqlx_migrations",
+    "--exclude",
+    "/^public\\.tmp_/",
+  ]);
+  assertEquals(args1.include, ["public.*"]);
+  assertEquals(args1.exclude, ["*._sqlx_migrations", "/^public\\.tmp_/"]);
+
+  const args2 = parseArgs([]);
+  assertEquals(args2.include, []);
+  assertEquals(args2.exclude, []);
+});
+
+// Test relation kind options
+Deno.test("Relation kind options can be negated", () => {
+  const args1 = parseArgs([]);
+  assertEquals(args1.views, true);
+  assertEquals(args1["materialized-views"], true);
+  assertEquals(args1["composite-types"], true);
+
+  const args2 = parseArgs(["--no-views", "--no-composite-types"]);
+  assertEquals(args2.views, false);
+  assertEquals(args2["materialized-views"], true);
+  assertEquals(args2["composite-types"], false);
+});
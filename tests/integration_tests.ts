@@ -1,157 +1,67 @@
 import {
+  assert,
   assertEquals,
   assertStringIncludes,
+  assertThrows,
 } from "https://deno.land/std@0.220.1/assert/mod.ts";
-import { join } from "https://deno.land/std@0.220.1/path/mod.ts";
+import { basename, join } from "https://deno.land/std@0.220.1/path/mod.ts";
 import { exists } from "https://deno.land/std@0.220.1/fs/exists.ts";
+import {
+  type CatalogColumnRow,
+  type CatalogConstraintRow,
+  type CatalogEnumRow,
+  type CatalogIndexRow,
+  type ColumnInfo,
+  COLUMNS_QUERY,
+  COMPOSITE_TYPES_QUERY,
+  CONSTRAINTS_QUERY,
+  ENUMS_QUERY,
+  INDEXES_QUERY,
+  introspectColumns,
+  introspectCompositeTypes,
+  introspectEnums,
+  introspectSchemaModels,
+  introspectSchemas,
+  introspectTables,
+  type QueryClient,
+  type RelationKind,
+  type SchemaModel,
+  SCHEMAS_QUERY,
+  TABLES_QUERY,
+  toColumnInfo,
+} from "../introspect.ts";
+import { diff, introspect, lint, render } from "../mod.ts";
+import { CONFIG_VERSION, readConfig } from "../config.ts";
+import { renderRust, renderRustFiles } from "../rust.ts";
+import {
+  diffModuleTree,
+  writeFileIfChanged,
+  writeModuleTree,
+} from "../module_tree.ts";
+import { renderDiesel } from "../diesel.ts";
+import { renderHtml } from "../html.ts";
+import { renderMarkdown } from "../markdown.ts";
+import { renderMermaid } from "../mermaid.ts";
+import { resolveColumnOverrides } from "../column_overrides.ts";
+import { DEFAULT_TS_TYPE_MAP, renderTypeScript } from "../typescript.ts";
+import { DEFAULT_ZOD_TYPE_MAP, renderZod } from "../zod.ts";
+import {
+  createSnapshot,
+  parseSnapshot,
+  readSnapshot,
+  serializeSnapshot,
+} from "../snapshot.ts";
+import {
+  diffSchemas,
+  formatSchemaDiff,
+  type SchemaChange,
+} from "../schema_diff.ts";
+import { formatLintFindings, lintSchemas, toSarif } from "../schema_lint.ts";
+import { DEFAULT_TYPE_MAP, getRustType } from "../type_map.ts";
+import { schemaFingerprint, watchChanges } from "../watch.ts";
 
-// Mock PostgreSQL client for testing
-// Define types for our mock database
-type TableRow = { table_name: string };
-type ColumnRow = {
-  column_name: string;
-  data_type: string;
-  is_nullable: string;
-  column_default: string | null;
-};
-
-class MockClient {
-  #connected = false;
-  #tables: TableRow[] = [
-    { table_name: "users" },
-    { table_name: "posts" },
-    { table_name: "comments" },
-  ];
-
-  #columns: Record<
-    string,
-    Array<
-      {
-        column_name: string;
-        data_type: string;
-        is_nullable: string;
-        column_default: string | null;
-      }
-    >
-  > = {
-    "users": [
-      {
-        column_name: "id",
-        data_type: "uuid",
-        is_nullable: "NO",
-        column_default: "uuid_generate_v4()",
-      },
-      {
-        column_name: "username",
-        data_type: "varchar",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "email",
-        data_type: "varchar",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "created_at",
-        data_type: "timestamp",
-        is_nullable: "NO",
-        column_default: "CURRENT_TIMESTAMP",
-      },
-    ],
-    "posts": [
-      {
-        column_name: "id",
-        data_type: "uuid",
-        is_nullable: "NO",
-        column_default: "uuid_generate_v4()",
-      },
-      {
-        column_name: "user_id",
-        data_type: "uuid",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "title",
-        data_type: "varchar",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "content",
-        data_type: "text",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "published",
-        data_type: "bool",
-        is_nullable: "NO",
-        column_default: "false",
-      },
-      {
-        column_name: "created_at",
-        data_type: "timestamp",
-        is_nullable: "NO",
-        column_default: "CURRENT_TIMESTAMP",
-      },
-    ],
-    "comments": [
-      {
-        column_name: "id",
-        data_type: "uuid",
-        is_nullable: "NO",
-        column_default: "uuid_generate_v4()",
-      },
-      {
-        column_name: "post_id",
-        data_type: "uuid",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "user_id",
-        data_type: "uuid",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "content",
-        data_type: "text",
-        is_nullable: "NO",
-        column_default: null,
-      },
-      {
-        column_name: "created_at",
-        data_type: "timestamp",
-        is_nullable: "NO",
-        column_default: "CURRENT_TIMESTAMP",
-      },
-    ],
-  };
-
-  constructor() {
-    this.#connected = true;
-  }
-
-  queryObject(query: string, params: unknown[] = []) {
-    // Mock the query responses based on the query
-    if (query.includes("information_schema.tables")) {
-      return { rows: this.#tables };
-    } else if (query.includes("information_schema.columns")) {
-      const tableName = params[0] as string;
-      return { rows: this.#columns[tableName] || [] };
-    }
-
-    return { rows: [] };
-  }
-
-  end() {
-    this.#connected = false;
-  }
-}
+// Schema snapshot used as the database fixture for generation tests
+const fixturePath = join(Deno.cwd(), "tests", "fixtures", "blog_snapshot.json");
 
 // Mock environment for testing
 async function setupTestEnvironment() {
@@ -165,24 +75,7 @@ async function setupTestEnvironment() {
   // Create test mappings.json
   const mappingsPath = join(testDir, "mappings.json");
   const mappings = {
-    typeMap: {
-      "int2": "i16",
-      "int4": "i32",
-      "int8": "i64",
-      "float4": "f32",
-      "float8": "f64",
-      "numeric": "f64",
-      "bool": "bool",
-      "varchar": "String",
-      "char": "String",
-      "text": "String",
-      "uuid": "uuid::Uuid",
-      "date": "chrono::NaiveDate",
-      "timestamp": "chrono::NaiveDateTime",
-      "timestamptz": "chrono::DateTime<chrono::Utc>",
-      "json": "serde_json::Value",
-      "jsonb": "serde_json::Value",
-    },
+    typeMap: DEFAULT_TYPE_MAP,
     specialCases: {},
   };
 
@@ -196,122 +89,33 @@ async function cleanupTestEnvironment(testDir: string) {
   await Deno.remove(testDir, { recursive: true });
 }
 
-// Mock the main function for testing
-async function mockGenerateRustTypes(options: {
+// Generate Rust types from the snapshot fixture through the library API, as
+// main.ts does with --from-snapshot
+async function generateFromSnapshot(options: {
   outputPath?: string;
   sqlx?: boolean;
+  writeStructs?: boolean;
 }) {
-  const client = new MockClient();
   const testDir = await setupTestEnvironment();
 
   // Default output path
   const outputPath = options.outputPath || join(testDir, "test_types.rs");
 
   // Read mappings
-  const mappingsPath = join(testDir, "mappings.json");
-  const mappingsText = await Deno.readTextFile(mappingsPath);
-  const mappings = JSON.parse(mappingsText);
+  const { config } = await readConfig(join(testDir, "mappings.json"));
 
   // Generate Rust types
-  let rustOutput = "// Generated Rust types for PostgreSQL database\n\n";
-
-  // Add necessary imports
-  if (options.sqlx) {
-    rustOutput += `use sqlx;\n`;
-    rustOutput += `use serde::{Deserialize, Serialize};\n`;
-  } else {
-    rustOutput += `use serde::{Deserialize, Serialize};\n`;
-  }
-  rustOutput += `use chrono;\n`;
-  rustOutput += `use uuid;\n`;
-  rustOutput += `use serde_json;\n\n`;
-
-  // Get all tables
-  const tablesResult = await client.queryObject(`
-    SELECT table_name
-    FROM information_schema.tables
-    WHERE table_schema = 'public'
-    ORDER BY table_name
-  `);
-
-  // Generate a struct for each table
-  for (const table of tablesResult.rows as TableRow[]) {
-    const tableName = table.table_name;
-
-    // Get columns for this table
-    const columnsResult = await client.queryObject(
-      `
-      SELECT column_name, data_type, is_nullable, column_default
-      FROM information_schema.columns
-      WHERE table_name = $1
-      ORDER BY ordinal_position
-    `,
-      [tableName],
-    );
-
-    // Generate struct
-    if (options.sqlx) {
-      // SQLx attributes only
-      rustOutput += `#[derive(Debug, Serialize, Deserialize, sqlx::FromRow)]\n`;
-      rustOutput += `#[sqlx(rename_all = "camelCase")]\n`;
-      rustOutput += `#[sqlx(table = "${tableName}")]\n`;
-    } else {
-      // Serde attributes only
-      rustOutput += `#[derive(Debug, Serialize, Deserialize)]\n`;
-      rustOutput += `#[serde(rename_all = "camelCase")]\n`;
-      rustOutput += `#[serde(rename = "${tableName}")]\n`;
-    }
-
-    // Convert table name to PascalCase for struct name
-    const structName = tableName
-      .split("_")
-      .map((part: string) =>
-        part.charAt(0).toUpperCase() + part.slice(1).toLowerCase()
-      )
-      .join("");
-
-    rustOutput += `pub struct ${structName} {\n`;
-
-    // Add fields for each column
-    for (const column of columnsResult.rows as ColumnRow[]) {
-      const columnName = column.column_name;
-      const dataType = column.data_type;
-      const isNullable = column.is_nullable === "YES";
-
-      // Convert column name to snake_case for field name
-      const fieldName = columnName.toLowerCase();
-
-      // Get Rust type for this PostgreSQL type
-      const rustType = isNullable
-        ? `Option<${mappings.typeMap[dataType] || "String"}>`
-        : mappings.typeMap[dataType] || "String";
-
-      // Add field with doc comment
-      rustOutput += `    /// ${columnName} - ${dataType}${
-        isNullable ? ", nullable" : ""
-      }${column.column_default ? `, default: ${column.column_default}` : ""}\n`;
-
-      // Add rename attributes if field name is different from original column name
-      if (fieldName !== columnName.toLowerCase()) {
-        if (options.sqlx) {
-          // Add only SQLx rename attribute
-          rustOutput += `    #[sqlx(rename = "${columnName}")]\n`;
-        } else {
-          // Add only Serde rename attribute
-          rustOutput += `    #[serde(rename = "${columnName}")]\n`;
-        }
-      }
-
-      rustOutput += `    pub ${fieldName}: ${rustType},\n`;
-    }
-
-    rustOutput += `}\n\n`;
-  }
+  const snapshot = await readSnapshot(fixturePath);
+  const files = render(snapshot.schemas, {
+    config,
+    database: snapshot.database,
+    sqlx: options.sqlx,
+    writeStructs: options.writeStructs,
+  });
+  assertEquals([...files.keys()], [`${snapshot.database}_types.rs`]);
 
   // Write to file
-  await Deno.writeTextFile(outputPath, rustOutput);
-
-  await client.end();
+  await Deno.writeTextFile(outputPath, [...files.values()][0]);
 
   return {
     outputPath,
@@ -321,7 +125,7 @@ async function mockGenerateRustTypes(options: {
 
 // Integration tests
 Deno.test("Generate Rust types with Serde attributes", async () => {
-  const { outputPath, testDir } = await mockGenerateRustTypes({
+  const { outputPath, testDir } = await generateFromSnapshot({
     sqlx: false,
   });
 
@@ -338,12 +142,19 @@ Deno.test("Generate Rust types with Serde attributes", async () => {
   assertStringIncludes(content, '#[serde(rename_all = "camelCase")]');
   assertStringIncludes(content, "pub struct Users {");
 
+  // Columns resolve through the typeMap and the generated enum
+  assertStringIncludes(content, "pub enum PostStatus {");
+  assertStringIncludes(content, "    pub status: PostStatus,\n");
+  assertStringIncludes(content, "    pub published: bool,\n");
+  assertStringIncludes(content, '    #[serde(rename = "displayName")]\n');
+  assertStringIncludes(content, "    pub display_name: Option<String>,\n");
+
   // Clean up
   await cleanupTestEnvironment(testDir);
 });
 
 Deno.test("Generate Rust types with SQLx attributes", async () => {
-  const { outputPath, testDir } = await mockGenerateRustTypes({
+  const { outputPath, testDir } = await generateFromSnapshot({
     sqlx: true,
   });
 
@@ -354,8 +165,8 @@ Deno.test("Generate Rust types with SQLx attributes", async () => {
   // Read the generated file
   const content = await Deno.readTextFile(outputPath);
 
-  // Check if it contains the expected content
-  assertStringIncludes(content, "use sqlx;");
+  // sqlx derives are written with their full path, so there's no use sqlx
+  assertEquals(content.includes("use sqlx;"), false);
   assertStringIncludes(
     content,
     "#[derive(Debug, Serialize, Deserialize, sqlx::FromRow)]",
@@ -366,3 +177,1822 @@ Deno.test("Generate Rust types with SQLx attributes", async () => {
   // Clean up
   await cleanupTestEnvironment(testDir);
 });
+
+Deno.test("Generate insert and update structs", async () => {
+  const { outputPath, testDir } = await generateFromSnapshot({
+    writeStructs: true,
+  });
+  const content = await Deno.readTextFile(outputPath);
+
+  // Defaulted columns are optional on insert and skipped when unset
+  assertStringIncludes(content, "pub struct NewUsers {\n");
+  assertStringIncludes(
+    content,
+    '    #[serde(skip_serializing_if = "Option::is_none")]\n    pub id: Option<uuid::Uuid>,\n',
+  );
+  assertStringIncludes(content, "    pub email: String,\n");
+
+  // Every update field is optional and the primary key is left out
+  assertStringIncludes(
+    content,
+    "#[derive(Debug, Default, Serialize, Deserialize)]\n",
+  );
+  assertStringIncludes(content, "pub struct UsersPatch {\n");
+  assertStringIncludes(content, "    pub email: Option<String>,\n");
+  assertStringIncludes(
+    content,
+    "    pub display_name: Option<Option<String>>,\n",
+  );
+  const patch = content.slice(content.indexOf("pub struct UsersPatch {"));
+  assertEquals(patch.slice(0, patch.indexOf("}")).includes("pub id:"), false);
+
+  await cleanupTestEnvironment(testDir);
+});
+
+Deno.test("Foreign keys link to the referenced struct and share newtype IDs", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const content = renderRust(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    idNewtypes: true,
+    writeStructs: true,
+  });
+
+  assertStringIncludes(
+    content,
+    "#[derive(Debug, Clone, Copy, PartialEq, Eq, Hash, Serialize, Deserialize)]\n#[serde(transparent)]\npub struct UsersId(pub uuid::Uuid);\n",
+  );
+
+  // Primary keys and the foreign keys referencing them use the same newtype
+  assertStringIncludes(content, "    pub id: UsersId,\n");
+  assertStringIncludes(content, "    pub id: Option<PostsId>,\n");
+  assertStringIncludes(
+    content,
+    "    /// post_id - uuid\n    /// References [`Posts`] (`id`)\n    pub post_id: PostsId,\n",
+  );
+  assertStringIncludes(
+    content,
+    "    /// References [`Users`] (`id`)\n    pub user_id: UsersId,\n",
+  );
+
+  // Without newtypes the doc links remain
+  const plain = renderRust(snapshot.schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertEquals(plain.includes("UsersId"), false);
+  assertStringIncludes(
+    plain,
+    "    /// References [`Users`] (`id`)\n    pub user_id: uuid::Uuid,\n",
+  );
+});
+
+Deno.test("Only the use declarations the code needs are emitted", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const content = renderRust(snapshot.schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertStringIncludes(
+    content,
+    "// Generated Rust types for PostgreSQL database\n\nuse serde::{Deserialize, Serialize};\n\n",
+  );
+  for (const crate of ["sqlx", "chrono", "uuid", "serde_json"]) {
+    assertEquals(content.includes(`use ${crate}`), false);
+  }
+  assertStringIncludes(content, "    pub id: uuid::Uuid,\n");
+
+  // Nothing to import without any types
+  const empty = [{ name: "public", enums: [], compositeTypes: [], tables: [] }];
+  assertEquals(
+    renderRust(empty, { typeMap: DEFAULT_TYPE_MAP }),
+    "// Generated Rust types for PostgreSQL database\n\n",
+  );
+
+  // Diesel needs its prelude for the derives
+  const diesel = renderDiesel(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+  });
+  assertStringIncludes(
+    diesel,
+    "\n\nuse diesel::prelude::*;\nuse serde::{Deserialize, Serialize};\n\n",
+  );
+
+  // Files that are include!d rely on the imports of the including file
+  const included = renderRust(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    noImports: true,
+  });
+  assertEquals(included.includes("use "), false);
+  assertStringIncludes(included, "#[derive(Debug, Serialize, Deserialize)]");
+});
+
+Deno.test("Module tree output has one file per type and computed imports", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const files = renderRustFiles(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    idNewtypes: true,
+  });
+
+  assertEquals([...files.keys()].sort(), [
+    "comments.rs",
+    "mod.rs",
+    "post_status.rs",
+    "posts.rs",
+    "users.rs",
+  ]);
+  assertEquals(
+    files.get("mod.rs"),
+    "// @generated by db_analyzer\n\npub mod comments;\npub mod post_status;\npub mod posts;\npub mod users;\n\npub use comments::{Comments, CommentsId};\npub use post_status::PostStatus;\npub use posts::{Posts, PostsId};\npub use users::{Users, UsersId};\n",
+  );
+
+  // Each file imports only the local types it uses
+  const posts = files.get("posts.rs")!;
+  assertStringIncludes(
+    posts,
+    "// @generated by db_analyzer from table `posts`\n\nuse serde::{Deserialize, Serialize};\nuse super::{PostStatus, UsersId};\n",
+  );
+  assertEquals(files.get("users.rs")!.includes("use super::"), false);
+  assertEquals(files.get("post_status.rs")!.includes("use super::"), false);
+});
+
+Deno.test("Module tree output nests schemas in directories", () => {
+  const column = toColumnInfo({
+    ...ordersCatalogRows[0],
+    column_name: "role",
+    udt_name: "role",
+    udt_schema: "auth",
+    formatted_type: "auth.role",
+  });
+  const schemas = [
+    {
+      name: "auth",
+      enums: [{ schema: "auth", name: "role", variants: ["admin", "member"] }],
+      compositeTypes: [],
+      tables: [],
+    },
+    {
+      name: "public",
+      enums: [],
+      compositeTypes: [],
+      tables: [
+        {
+          name: "users",
+          kind: "table" as const,
+          columns: [column],
+          constraints: [],
+        },
+      ],
+    },
+  ];
+
+  const files = renderRustFiles(schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertEquals([...files.keys()].sort(), [
+    "auth/mod.rs",
+    "auth/role.rs",
+    "mod.rs",
+    "public/mod.rs",
+    "public/users.rs",
+  ]);
+  assertEquals(
+    files.get("mod.rs"),
+    "// @generated by db_analyzer\n\npub mod auth;\npub mod public;\n",
+  );
+  assertStringIncludes(
+    files.get("public/users.rs")!,
+    "    pub role: super::super::auth::Role,\n",
+  );
+
+  // As a single file, schema modules reach the file's imports through super
+  const content = renderRust(schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertStringIncludes(content, "pub mod auth {\n    use super::*;\n\n");
+  assertStringIncludes(content, "pub mod public {\n    use super::*;\n\n");
+});
+
+Deno.test("Writing a module tree removes stale generated files only", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const first = new Map([
+      ["mod.rs", "// @generated by db_analyzer\n\npub mod a;\npub mod b;\n"],
+      ["a.rs", "// @generated by db_analyzer from table `a`\n"],
+      ["b.rs", "// @generated by db_analyzer from table `b`\n"],
+    ]);
+    assertEquals(await writeModuleTree(dir, first), {
+      written: ["mod.rs", "a.rs", "b.rs"],
+      removed: [],
+    });
+    await Deno.writeTextFile(join(dir, "helpers.rs"), "pub fn helper() {}\n");
+
+    // Table b was dropped
+    const second = new Map([
+      ["mod.rs", "// @generated by db_analyzer\n\npub mod a;\n"],
+      ["a.rs", "// @generated by db_analyzer from table `a`\n"],
+    ]);
+    const drift = await diffModuleTree(dir, second);
+    assertEquals(drift.changed.map((change) => change.path), ["mod.rs"]);
+    assertEquals(drift.missing, []);
+    assertEquals(drift.stale, ["b.rs"]);
+
+    assertEquals(await writeModuleTree(dir, second), {
+      written: ["mod.rs"],
+      removed: ["b.rs"],
+    });
+    assertEquals(await exists(join(dir, "b.rs")), false);
+    assertEquals(await exists(join(dir, "helpers.rs")), true);
+
+    // Hand-written files are never overwritten
+    const error = await writeModuleTree(
+      dir,
+      new Map([["helpers.rs", "// @generated by db_analyzer\n"]]),
+    ).catch((error) => error as Error);
+    assertStringIncludes(String(error), "wasn't generated by db_analyzer");
+    assertEquals(
+      await Deno.readTextFile(join(dir, "helpers.rs")),
+      "pub fn helper() {}\n",
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Output files are only rewritten when their content changes", async () => {
+  const dir = await Deno.makeTempDir();
+  const path = join(dir, "db_types.rs");
+  try {
+    assertEquals(await writeFileIfChanged(path, "pub struct A;\n"), true);
+    const { mtime } = await Deno.stat(path);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    assertEquals(await writeFileIfChanged(path, "pub struct A;\n"), false);
+    assertEquals((await Deno.stat(path)).mtime, mtime);
+    assertEquals(await writeFileIfChanged(path, "pub struct B;\n"), true);
+    assertEquals(await Deno.readTextFile(path), "pub struct B;\n");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("Migration changes are reported once they settle", async () => {
+  const dir = await Deno.makeTempDir();
+  const controller = new AbortController();
+  const calls: string[][] = [];
+  let changed: () => void;
+  const firstCall = new Promise<void>((resolve) => changed = resolve);
+
+  try {
+    const watching = watchChanges(dir, (paths) => {
+      calls.push(paths.map((path) => basename(path)));
+      changed();
+      return Promise.resolve();
+    }, { debounceMs: 200, signal: controller.signal });
+
+    await Deno.writeTextFile(join(dir, "0001_init.sql"), "CREATE TABLE a ();");
+    await Deno.writeTextFile(join(dir, "0002_b.sql"), "CREATE TABLE b ();");
+    await firstCall;
+    controller.abort();
+    await watching;
+
+    assertEquals(calls, [["0001_init.sql", "0002_b.sql"]]);
+  } finally {
+    controller.abort();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("The schema fingerprint changes only with the schema", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const fingerprint = await schemaFingerprint(snapshot.schemas);
+  assertEquals(fingerprint.length, 64);
+
+  const reread = await readSnapshot(fixturePath);
+  assertEquals(await schemaFingerprint(reread.schemas), fingerprint);
+
+  reread.schemas[0].tables[0].columns[0].isNullable = true;
+  assertEquals(
+    (await schemaFingerprint(reread.schemas)) === fingerprint,
+    false,
+  );
+});
+
+Deno.test("Keywords, leading digits and colliding names make valid identifiers", () => {
+  const columns = ["id", "type", "2fa_secret", "userId", "user_id", "self"].map(
+    (name) =>
+      toColumnInfo({
+        ...ordersCatalogRows[0],
+        column_name: name,
+        udt_name: "text",
+        formatted_type: "text",
+      }),
+  );
+  const schemas = [{
+    name: "public",
+    enums: [{
+      schema: "public",
+      name: "state",
+      variants: ["in-progress", "in_progress", "1st"],
+    }],
+    compositeTypes: [],
+    tables: [{
+      name: "match",
+      kind: "table" as const,
+      columns,
+      constraints: [],
+    }],
+  }];
+
+  const warnings: string[] = [];
+  const content = renderRust(schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    warn: (message) => warnings.push(message),
+  });
+  assertStringIncludes(content, "pub struct Match {\n");
+  assertStringIncludes(content, "    pub r#type: String,\n");
+  assertStringIncludes(
+    content,
+    '    #[serde(rename = "2fa_secret")]\n    pub _2fa_secret: String,\n',
+  );
+  assertStringIncludes(
+    content,
+    '    #[serde(rename = "userId")]\n    pub user_id_2: String,\n',
+  );
+  assertStringIncludes(content, "    pub user_id: String,\n");
+  assertStringIncludes(content, "    pub self_: String,\n");
+  assertStringIncludes(
+    content,
+    '    #[serde(rename = "in_progress")]\n    InProgress2,\n',
+  );
+  assertStringIncludes(content, '    #[serde(rename = "1st")]\n    _1st,\n');
+  assertEquals(warnings, [
+    'Variants of enum public.state: "in_progress" and "in-progress" both map to InProgress, so "in_progress" is InProgress2',
+    'Columns of public.match: "userId" and "user_id" both map to user_id, so "userId" is user_id_2',
+  ]);
+
+  // table! doesn't take raw identifiers, so Diesel gets suffixes
+  const diesel = renderDiesel(schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertStringIncludes(
+    diesel,
+    '    #[sql_name = "match"]\n    match_ (id) {\n',
+  );
+  assertStringIncludes(
+    diesel,
+    '        #[sql_name = "type"]\n        type_ -> Text,\n',
+  );
+  assertStringIncludes(
+    diesel,
+    '        #[sql_name = "userId"]\n        user_id_2 -> Text,\n',
+  );
+  assertStringIncludes(diesel, "#[diesel(table_name = match_)]\n");
+});
+
+Deno.test("Table and column comments become doc comments", () => {
+  const columns = [
+    {
+      ...ordersCatalogRows[0],
+      column_comment: "Order number.\nShown to customers.",
+    },
+    { ...ordersCatalogRows[2], column_comment: "Internal only\n@skip" },
+    { ...ordersCatalogRows[4], column_comment: "@rust-type crate::Metadata" },
+  ].map(toColumnInfo);
+  const schemas = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [],
+    tables: [{
+      name: "orders",
+      kind: "table" as const,
+      comment: "Orders placed in the shop.\n\nOne row per checkout.",
+      columns,
+      constraints: [],
+    }],
+  }];
+  const options = {
+    typeMap: DEFAULT_TYPE_MAP,
+    columnOverrides: resolveColumnOverrides(schemas, {}),
+  };
+
+  const content = renderRust(schemas, options);
+  assertStringIncludes(
+    content,
+    "/// Orders placed in the shop.\n///\n/// One row per checkout.\n#[derive(Debug, Serialize, Deserialize)]\n",
+  );
+  assertStringIncludes(
+    content,
+    "    /// Order number.\n    /// Shown to customers.\n    ///\n    /// id - bigint, default: nextval('orders_id_seq'::regclass)\n",
+  );
+  assertEquals(content.includes("reference"), false);
+  assertStringIncludes(content, "    pub metadata: Option<crate::Metadata>,\n");
+
+  // Diesel keeps skipped columns in table! and documents it too
+  const diesel = renderDiesel(schemas, options);
+  assertStringIncludes(
+    diesel,
+    "diesel::table! {\n    /// Orders placed in the shop.\n    ///\n    /// One row per checkout.\n    orders (id) {\n",
+  );
+  assertStringIncludes(
+    diesel,
+    "        /// Internal only\n        ///\n        /// reference - character varying(64)\n",
+  );
+  assertEquals(diesel.includes("pub reference:"), false);
+});
+
+Deno.test("Column overrides set field types, names and attributes", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const columnOverrides = resolveColumnOverrides(snapshot.schemas, {
+    "users.email": { type: "crate::Email" },
+    "users.displayName": {
+      type: "crate::DisplayName",
+      rename: "nickname",
+      attributes: ["serde(skip_serializing)"],
+    },
+  });
+
+  const content = renderRust(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    columnOverrides,
+    writeStructs: true,
+  });
+  assertStringIncludes(content, "    pub email: crate::Email,\n");
+  assertStringIncludes(
+    content,
+    '    #[serde(rename = "displayName")]\n    #[serde(skip_serializing)]\n    pub nickname: Option<crate::DisplayName>,\n',
+  );
+  // Attributes only apply to the row struct
+  assertStringIncludes(
+    content,
+    '    #[serde(rename = "displayName")]\n    pub nickname: Option<crate::DisplayName>,\n',
+  );
+  assertStringIncludes(
+    content,
+    "    pub nickname: Option<Option<crate::DisplayName>>,\n",
+  );
+
+  const diesel = renderDiesel(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    columnOverrides,
+  });
+  assertStringIncludes(
+    diesel,
+    "    #[diesel(column_name = display_name)]\n    #[serde(skip_serializing)]\n    pub nickname: Option<crate::DisplayName>,\n",
+  );
+});
+
+// Catalog rows as returned by COLUMNS_QUERY for a realistic "orders" table
+const ordersCatalogRows: CatalogColumnRow[] = [
+  {
+    column_name: "id",
+    udt_name: "int8",
+    udt_schema: "pg_catalog",
+    element_type: null,
+    element_schema: null,
+    element_not_null: false,
+    typmod: -1,
+    dimensions: 0,
+    is_nullable: false,
+    column_default: "nextval('orders_id_seq'::regclass)",
+    identity: "",
+    generated: "",
+    formatted_type: "bigint",
+    column_comment: null,
+  },
+  {
+    column_name: "customer_id",
+    udt_name: "uuid",
+    udt_schema: "pg_catalog",
+    element_type: null,
+    element_schema: null,
+    element_not_null: false,
+    typmod: -1,
+    dimensions: 0,
+    is_nullable: false,
+    column_default: null,
+    identity: "",
+    generated: "",
+    formatted_type: "uuid",
+    column_comment: null,
+  },
+  {
+    column_name: "reference",
+    udt_name: "varchar",
+    udt_schema: "pg_catalog",
+    element_type: null,
+    element_schema: null,
+    element_not_null: false,
+    typmod: 68,
+    dimensions: 0,
+    is_nullable: false,
+    column_default: null,
+    identity: "",
+    generated: "",
+    formatted_type: "character varying(64)",
+    column_comment: null,
+  },
+  {
+    column_name: "tags",
+    udt_name: "_text",
+    udt_schema: "pg_catalog",
+    element_type: "text",
+    element_schema: "pg_catalog",
+    element_not_null: false,
+    typmod: -1,
+    dimensions: 1,
+    is_nullable: true,
+    column_default: null,
+    identity: "",
+    generated: "",
+    formatted_type: "text[]",
+    column_comment: null,
+  },
+  {
+    column_name: "metadata",
+    udt_name: "jsonb",
+    udt_schema: "pg_catalog",
+    element_type: null,
+    element_schema: null,
+    element_not_null: false,
+    typmod: -1,
+    dimensions: 0,
+    is_nullable: true,
+    column_default: "'{}'::jsonb",
+    identity: "",
+    generated: "",
+    formatted_type: "jsonb",
+    column_comment: null,
+  },
+  {
+    column_name: "placed_at",
+    udt_name: "timestamptz",
+    udt_schema: "pg_catalog",
+    element_type: null,
+    element_schema: null,
+    element_not_null: false,
+    typmod: -1,
+    dimensions: 0,
+    is_nullable: false,
+    column_default: "now()",
+    identity: "",
+    generated: "",
+    formatted_type: "timestamp with time zone",
+    column_comment: null,
+  },
+];
+
+// Enum label rows as returned by ENUMS_QUERY
+const enumCatalogRows: CatalogEnumRow[] = [
+  { schema_name: "public", enum_name: "order_status", label: "pending" },
+  { schema_name: "public", enum_name: "order_status", label: "in_progress" },
+  { schema_name: "public", enum_name: "order_status", label: "shipped" },
+  { schema_name: "public", enum_name: "user_role", label: "ADMIN" },
+  { schema_name: "public", enum_name: "user_role", label: "member" },
+];
+
+// Catalog contents keyed by schema name, columns keyed by "schema.relation"
+type CatalogFixture = {
+  schemas?: string[];
+  tables?: Record<
+    string,
+    Array<{ table_name: string; kind: RelationKind; comment: string | null }>
+  >;
+  compositeTypes?: Record<string, string[]>;
+  constraints?: Record<string, Omit<CatalogConstraintRow, "schema_name">[]>;
+  indexes?: Record<string, Omit<CatalogIndexRow, "schema_name">[]>;
+  columns?: Record<string, CatalogColumnRow[]>;
+  enums?: CatalogEnumRow[];
+};
+
+// Catalog client double that records the queries it receives and answers
+// them for the requested schemas
+class CatalogClient implements QueryClient {
+  queries: Array<{ query: string; args: unknown[] }> = [];
+
+  constructor(private catalog: CatalogFixture) {}
+
+  queryObject<T>(query: string, args: unknown[] = []) {
+    this.queries.push({ query, args });
+
+    const schemas = (args[0] || []) as string[];
+    const perSchema = <R>(rows: Record<string, R[]> = {}) =>
+      schemas.flatMap((schema_name) =>
+        (rows[schema_name] || []).map((row) => ({ schema_name, row }))
+      );
+
+    let rows: unknown[] = [];
+    if (query === SCHEMAS_QUERY) {
+      rows = (this.catalog.schemas || []).map((schema_name) => ({
+        schema_name,
+      }));
+    } else if (query === TABLES_QUERY) {
+      rows = perSchema(this.catalog.tables).map(({ schema_name, row }) => ({
+        schema_name,
+        ...row,
+      }));
+    } else if (query === COMPOSITE_TYPES_QUERY) {
+      rows = perSchema(this.catalog.compositeTypes).map((
+        { schema_name, row },
+      ) => ({ schema_name, type_name: row }));
+    } else if (query === CONSTRAINTS_QUERY) {
+      rows = perSchema(this.catalog.constraints).map((
+        { schema_name, row },
+      ) => ({ schema_name, ...row }));
+    } else if (query === INDEXES_QUERY) {
+      rows = perSchema(this.catalog.indexes).map((
+        { schema_name, row },
+      ) => ({ schema_name, ...row }));
+    } else if (query === COLUMNS_QUERY) {
+      rows = Object.entries(this.catalog.columns || {}).flatMap(
+        ([key, columns]) => {
+          const [schema_name, relation_name] = key.split(".");
+          return schemas.includes(schema_name)
+            ? columns.map((column) => ({
+              schema_name,
+              relation_name,
+              ...column,
+            }))
+            : [];
+        },
+      );
+    } else if (query === ENUMS_QUERY) {
+      rows = (this.catalog.enums || []).filter((row) =>
+        schemas.includes(row.schema_name)
+      );
+    }
+
+    return Promise.resolve({ rows: rows as T[] });
+  }
+}
+
+Deno.test("introspectColumns resolves columns from pg_catalog rows", async () => {
+  const client = new CatalogClient({
+    columns: { "public.orders": ordersCatalogRows },
+  });
+  const columns = (await introspectColumns(client, ["public"])).get(
+    "public.orders",
+  ) || [];
+
+  assertEquals(client.queries.length, 1);
+  assertEquals(client.queries[0].query, COLUMNS_QUERY);
+  assertEquals(client.queries[0].args, [["public"]]);
+
+  assertEquals(columns.map((column) => column.name), [
+    "id",
+    "customer_id",
+    "reference",
+    "tags",
+    "metadata",
+    "placed_at",
+  ]);
+  assertEquals(columns[2].udtName, "varchar");
+  assertEquals(columns[2].typmod, 68);
+  assertEquals(columns[3].elementType, "text");
+  assertEquals(columns[3].dimensions, 1);
+  assertEquals(columns[5].defaultValue, "now()");
+
+  assertEquals(
+    columns.map((column) => getRustType(column, DEFAULT_TYPE_MAP)),
+    [
+      "i64",
+      "uuid::Uuid",
+      "String",
+      "Option<Vec<String>>",
+      "Option<serde_json::Value>",
+      "chrono::DateTime<chrono::Utc>",
+    ],
+  );
+});
+
+Deno.test("introspectEnums groups pg_enum labels per type", async () => {
+  const client = new CatalogClient({ enums: enumCatalogRows });
+  const enums = await introspectEnums(client, ["public"]);
+
+  assertEquals(client.queries[0].args, [["public"]]);
+  assertEquals(enums, [
+    {
+      schema: "public",
+      name: "order_status",
+      variants: ["pending", "in_progress", "shipped"],
+    },
+    { schema: "public", name: "user_role", variants: ["ADMIN", "member"] },
+  ]);
+});
+
+Deno.test("Enum columns resolve to the generated enum type", () => {
+  const column = toColumnInfo({
+    ...ordersCatalogRows[0],
+    column_name: "status",
+    udt_name: "order_status",
+    udt_schema: "public",
+    is_nullable: true,
+    column_default: "'pending'::order_status",
+    formatted_type: "order_status",
+  });
+
+  const typeMap = {
+    "public.order_status": "OrderStatus",
+    ...DEFAULT_TYPE_MAP,
+  };
+  assertEquals(getRustType(column, typeMap), "Option<OrderStatus>");
+});
+
+Deno.test("Enums keep their PostgreSQL labels for serde and sqlx", () => {
+  const schemas: SchemaModel[] = [{
+    name: "billing",
+    enums: [{
+      schema: "billing",
+      name: "invoice_state",
+      variants: ["open", "paid_in_full"],
+    }],
+    compositeTypes: [{ name: "money_amount", columns: [] }],
+    tables: [],
+  }];
+
+  const sqlx = renderRust(schemas, { sqlx: true, typeMap: DEFAULT_TYPE_MAP });
+  assertStringIncludes(
+    sqlx,
+    '#[sqlx(type_name = "billing.invoice_state")]\npub enum InvoiceState {\n',
+  );
+  assertStringIncludes(
+    sqlx,
+    '    #[serde(rename = "open")]\n    #[sqlx(rename = "open")]\n    Open,\n',
+  );
+  assertStringIncludes(
+    sqlx,
+    '    #[serde(rename = "paid_in_full")]\n    #[sqlx(rename = "paid_in_full")]\n    PaidInFull,\n',
+  );
+  assertStringIncludes(sqlx, '#[sqlx(type_name = "billing.money_amount")]\n');
+
+  // Types in public aren't qualified
+  const publicSchemas = [{ ...schemas[0], name: "public" }];
+  assertStringIncludes(
+    renderRust(publicSchemas, { sqlx: true, typeMap: DEFAULT_TYPE_MAP }),
+    '#[sqlx(type_name = "invoice_state")]\n',
+  );
+
+  const serde = renderRust(schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertStringIncludes(serde, '    #[serde(rename = "open")]\n    Open,\n');
+  assertEquals(serde.includes("sqlx"), false);
+});
+
+Deno.test("introspectSchemas and introspectTables list schema contents", async () => {
+  const client = new CatalogClient({
+    schemas: ["audit", "auth", "billing", "public"],
+    tables: {
+      billing: [
+        { table_name: "invoices", kind: "table", comment: null },
+        { table_name: "users", kind: "table", comment: null },
+      ],
+      auth: [
+        { table_name: "sessions", kind: "table", comment: null },
+        { table_name: "users", kind: "table", comment: null },
+      ],
+    },
+  });
+
+  assertEquals(await introspectSchemas(client), [
+    "audit",
+    "auth",
+    "billing",
+    "public",
+  ]);
+  const tables = await introspectTables(client, ["audit", "auth", "billing"]);
+  assertEquals(tables.get("billing"), [
+    { name: "invoices", kind: "table", comment: null },
+    { name: "users", kind: "table", comment: null },
+  ]);
+  assertEquals(tables.get("auth"), [
+    { name: "sessions", kind: "table", comment: null },
+    { name: "users", kind: "table", comment: null },
+  ]);
+  assertEquals(tables.has("audit"), false);
+
+  assertEquals(
+    client.queries.map((query) => query.args),
+    [[], [["audit", "auth", "billing"]]],
+  );
+});
+
+Deno.test("introspectTables reports views and materialized views", async () => {
+  const client = new CatalogClient({
+    tables: {
+      public: [
+        { table_name: "active_users", kind: "view", comment: null },
+        {
+          table_name: "order_totals",
+          kind: "materialized_view",
+          comment: null,
+        },
+        { table_name: "users", kind: "table", comment: null },
+      ],
+    },
+  });
+
+  assertEquals((await introspectTables(client, ["public"])).get("public"), [
+    { name: "active_users", kind: "view", comment: null },
+    { name: "order_totals", kind: "materialized_view", comment: null },
+    { name: "users", kind: "table", comment: null },
+  ]);
+});
+
+Deno.test("Composite type attributes are introspected like columns", async () => {
+  const client = new CatalogClient({
+    compositeTypes: { public: ["address"] },
+    columns: {
+      "public.address": [
+        {
+          column_name: "street",
+          udt_name: "text",
+          udt_schema: "pg_catalog",
+          element_type: null,
+          element_schema: null,
+          element_not_null: false,
+          typmod: -1,
+          dimensions: 0,
+          is_nullable: true,
+          column_default: null,
+          identity: "",
+          generated: "",
+          formatted_type: "text",
+          column_comment: null,
+        },
+        {
+          column_name: "postcode",
+          udt_name: "varchar",
+          udt_schema: "pg_catalog",
+          element_type: null,
+          element_schema: null,
+          element_not_null: false,
+          typmod: 14,
+          dimensions: 0,
+          is_nullable: true,
+          column_default: null,
+          identity: "",
+          generated: "",
+          formatted_type: "character varying(10)",
+          column_comment: null,
+        },
+      ],
+    },
+  });
+
+  const compositeTypes = await introspectCompositeTypes(client, ["public"]);
+  assertEquals(compositeTypes.get("public"), ["address"]);
+
+  const schemas = await introspectSchemaModels(client, ["public"]);
+  assertEquals(
+    schemas[0].compositeTypes[0].columns.map((column) =>
+      getRustType(column, DEFAULT_TYPE_MAP)
+    ),
+    ["Option<String>", "Option<String>"],
+  );
+});
+
+Deno.test("Schema snapshots round-trip the introspected model", async () => {
+  const client = new CatalogClient({
+    tables: {
+      public: [{ table_name: "orders", kind: "table", comment: null }],
+    },
+    columns: { "public.orders": ordersCatalogRows },
+    enums: enumCatalogRows,
+    constraints: {
+      public: [
+        {
+          table_name: "orders",
+          constraint_name: "orders_pkey",
+          constraint_type: "p",
+          columns: ["id"],
+          foreign_schema: null,
+          foreign_table: null,
+          foreign_columns: null,
+        },
+        {
+          table_name: "orders",
+          constraint_name: "orders_customer_id_fkey",
+          constraint_type: "f",
+          columns: ["customer_id"],
+          foreign_schema: "public",
+          foreign_table: "customers",
+          foreign_columns: ["id"],
+        },
+      ],
+    },
+    indexes: {
+      public: [
+        {
+          table_name: "orders",
+          index_name: "orders_pkey",
+          columns: ["id"],
+          is_unique: true,
+          is_primary: true,
+          definition:
+            "CREATE UNIQUE INDEX orders_pkey ON public.orders USING btree (id)",
+        },
+        {
+          table_name: "orders",
+          index_name: "orders_reference_lower_idx",
+          columns: ["lower(reference::text)"],
+          is_unique: false,
+          is_primary: false,
+          definition:
+            "CREATE INDEX orders_reference_lower_idx ON public.orders USING btree (lower((reference)::text))",
+        },
+      ],
+    },
+  });
+
+  const schemas = await introspectSchemaModels(client, ["public"]);
+  assertEquals(
+    schemas[0].tables[0].indexes?.map((index) => [
+      index.name,
+      index.columns,
+      index.unique,
+      index.primary,
+    ]),
+    [
+      ["orders_pkey", ["id"], true, true],
+      ["orders_reference_lower_idx", ["lower(reference::text)"], false, false],
+    ],
+  );
+  assertEquals(schemas[0].tables[0].constraints, [
+    {
+      name: "orders_pkey",
+      type: "primary_key",
+      columns: ["id"],
+      references: null,
+    },
+    {
+      name: "orders_customer_id_fkey",
+      type: "foreign_key",
+      columns: ["customer_id"],
+      references: { schema: "public", table: "customers", columns: ["id"] },
+    },
+  ]);
+
+  const snapshot = createSnapshot("shop", schemas);
+  const restored = parseSnapshot(serializeSnapshot(snapshot));
+  assertEquals(restored, snapshot);
+
+  // Rendering the restored snapshot matches rendering the live model
+  const options = { sqlx: true, typeMap: DEFAULT_TYPE_MAP };
+  assertEquals(
+    renderRust(restored.schemas, options),
+    renderRust(schemas, options),
+  );
+});
+
+Deno.test("The library API introspects and renders like the CLI", async () => {
+  const client = new CatalogClient({
+    schemas: ["billing", "public"],
+    tables: {
+      public: [
+        { table_name: "orders", kind: "table", comment: null },
+        { table_name: "order_totals", kind: "view", comment: null },
+      ],
+      billing: [{ table_name: "invoices", kind: "table", comment: null }],
+    },
+    columns: {
+      "public.orders": ordersCatalogRows,
+      "public.order_totals": [ordersCatalogRows[0]],
+      "billing.invoices": [ordersCatalogRows[0]],
+    },
+  });
+
+  const publicOnly = await introspect(client);
+  assertEquals(publicOnly.map((schema) => schema.name), ["public"]);
+  const models = await introspect(client, { schemas: "all" });
+  assertEquals(models.map((schema) => schema.name), ["billing", "public"]);
+
+  // Every schema in the model, one file named after the database
+  const files = render(models, { database: "shop", sqlx: true });
+  assertEquals([...files.keys()], ["shop_types.rs"]);
+  assertEquals(
+    files.get("shop_types.rs"),
+    renderRust(models, { sqlx: true, typeMap: DEFAULT_TYPE_MAP }),
+  );
+
+  // Selection and the config are applied as with the command-line options
+  const ts = render(models, {
+    target: "ts",
+    schemas: ["public"],
+    views: false,
+    config: {
+      version: 3,
+      typeMaps: { ts: { int8: "bigint" } },
+    },
+  }).get("db_types.ts")!;
+  assertStringIncludes(ts, "export interface Orders {");
+  assertStringIncludes(ts, "  id: bigint;\n");
+  assertEquals(ts.includes("OrderTotals"), false);
+  assertEquals(ts.includes("Invoices"), false);
+
+  assertEquals(
+    render(models, { moduleTree: true }),
+    renderRustFiles(models, { typeMap: DEFAULT_TYPE_MAP }),
+  );
+
+  assertThrows(
+    () => render(models, { target: "ts", diesel: true }),
+    Error,
+    "diesel can't be combined with sqlx or a non-Rust target",
+  );
+  assertThrows(
+    () => render(models, { schemas: ["auth"] }),
+    Error,
+    'Schema "auth" is not in the schema model',
+  );
+});
+
+Deno.test("Introspection query count doesn't grow with the number of tables", async () => {
+  // A catalog with the given number of tables in each of two schemas
+  const catalog = (tableCount: number): CatalogFixture => {
+    const names = Array.from({ length: tableCount }, (_, i) => `table_${i}`);
+    const fixture: CatalogFixture = { tables: {}, columns: {} };
+    for (const schema of ["public", "billing"]) {
+      fixture.tables![schema] = names.map((table_name) => ({
+        table_name,
+        kind: "table" as const,
+        comment: null,
+      }));
+      for (const name of names) {
+        fixture.columns![`${schema}.${name}`] = ordersCatalogRows;
+      }
+    }
+    return fixture;
+  };
+
+  const small = new CatalogClient(catalog(1));
+  const large = new CatalogClient(catalog(250));
+  await introspectSchemaModels(small, ["public", "billing"]);
+  const schemas = await introspectSchemaModels(large, ["public", "billing"]);
+
+  assertEquals(small.queries.length, 6);
+  assertEquals(large.queries.length, small.queries.length);
+  assertEquals(schemas.map((schema) => schema.tables.length), [250, 250]);
+  assertEquals(schemas[1].tables[249].columns.length, ordersCatalogRows.length);
+});
+
+Deno.test("Schema diffs flag changes that break the generated types", async () => {
+  const { schemas: before } = await readSnapshot(fixturePath);
+  const after = structuredClone(before);
+  const [comments, posts] = after[0].tables;
+  comments.columns[1].isNullable = true;
+  comments.columns[3] = {
+    ...comments.columns[3],
+    udtName: "varchar",
+    formattedType: "character varying(2000)",
+  };
+  comments.columns.pop();
+  comments.constraints = [];
+  posts.kind = "view";
+  after[0].enums[0].variants.push("deleted");
+  after[0].tables.pop();
+  after[0].tables.push({
+    name: "tags",
+    kind: "table",
+    columns: [comments.columns[0]],
+    constraints: [],
+  });
+
+  assertEquals(diffSchemas(before, before), []);
+  const changes = diffSchemas(before, after);
+  assertEquals(
+    changes.map((change) => [
+      change.change,
+      change.object,
+      change.name,
+      change.property ?? null,
+      change.breaking,
+    ]),
+    [
+      ["added", "enum_variant", "public.post_status.deleted", null, true],
+      ["changed", "column", "public.comments.post_id", "nullability", true],
+      // String either way
+      ["changed", "column", "public.comments.content", "type", false],
+      ["removed", "column", "public.comments.created_at", null, true],
+      ...before[0].tables[0].constraints.map((constraint) =>
+        [
+          "removed",
+          "constraint",
+          `public.comments.${constraint.name}`,
+          null,
+          false,
+        ] as const
+      ),
+      ["changed", "view", "public.posts", "kind", true],
+      ["removed", "table", "public.users", null, true],
+      ["added", "table", "public.tags", null, false],
+    ],
+  );
+  assertEquals(changes[1].reason, "uuid::Uuid → Option<uuid::Uuid>");
+
+  const text = formatSchemaDiff(changes);
+  assertStringIncludes(
+    text,
+    "~ column public.comments.post_id: nullability NOT NULL → nullable  ⚠️  breaking: uuid::Uuid → Option<uuid::Uuid>\n",
+  );
+  assertStringIncludes(
+    text,
+    "~ column public.comments.content: type text → character varying(2000)\n",
+  );
+  assertStringIncludes(text, "+ table public.tags\n");
+  assertStringIncludes(text, "breaking the generated Rust types\n");
+  assertEquals(formatSchemaDiff([]), "No schema changes\n");
+});
+
+Deno.test("Schema diffs judge fields by the config, presets and overrides", () => {
+  const column = (overrides: Partial<CatalogColumnRow>) =>
+    toColumnInfo({ ...ordersCatalogRows[1], ...overrides });
+  const orders = (columns: ColumnInfo[]): SchemaModel[] => [{
+    name: "public",
+    enums: [],
+    compositeTypes: [],
+    tables: [{ name: "orders", kind: "table", columns, constraints: [] }],
+  }];
+  const placedOn = { column_name: "placed_on", udt_name: "date" };
+  const before = orders([
+    toColumnInfo(ordersCatalogRows[0]),
+    column({}),
+    column({ ...placedOn, formatted_type: "date" }),
+  ]);
+  const after = orders([
+    toColumnInfo(ordersCatalogRows[0]),
+    column({ udt_name: "int8", formatted_type: "bigint" }),
+    column({
+      ...placedOn,
+      udt_name: "timestamp",
+      formatted_type: "timestamp without time zone",
+    }),
+    column({ column_name: "status", udt_name: "text" }),
+    column({ column_name: "note", udt_name: "text", is_nullable: true }),
+    column({
+      column_name: "created_at",
+      udt_name: "timestamptz",
+      column_default: "now()",
+    }),
+  ]);
+
+  const summary = (changes: SchemaChange[]) =>
+    changes.map((change) =>
+      `${change.change} ${change.name} ${change.breaking} ${change.reason}`
+    );
+  assertEquals(summary(diffSchemas(before, after)), [
+    "changed public.orders.customer_id true uuid::Uuid → i64",
+    "changed public.orders.placed_on true chrono::NaiveDate → chrono::NaiveDateTime",
+    // Inserts, such as New<Table> structs, can't leave it out
+    "added public.orders.status true inserts need a value for it",
+    "added public.orders.note false undefined",
+    "added public.orders.created_at false undefined",
+  ]);
+
+  // The override names a column that only exists after the change
+  const changes = diff(before, after, {
+    config: {
+      version: CONFIG_VERSION,
+      columns: {
+        "orders.customer_id": "crate::CustomerId",
+        "orders.status": { rename: "state" },
+      },
+    },
+    presets: { types: "time" },
+  });
+  assertEquals(summary(changes).slice(0, 2), [
+    "changed public.orders.customer_id false undefined",
+    "changed public.orders.placed_on true time::Date → time::PrimitiveDateTime",
+  ]);
+  assertEquals(
+    summary(diff(before, after, {
+      config: {
+        version: CONFIG_VERSION,
+        columns: { "orders.customer_id": { skip: true } },
+      },
+    }))[0],
+    "changed public.orders.customer_id false undefined",
+  );
+});
+
+Deno.test("Schema diffs only compare the selected relations", () => {
+  const table = (
+    name: string,
+    kind: RelationKind = "table",
+    comment: string | null = null,
+  ) => ({
+    name,
+    kind,
+    comment,
+    columns: [toColumnInfo(ordersCatalogRows[0])],
+    constraints: [],
+  });
+  const before: SchemaModel[] = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [],
+    tables: [
+      table("orders"),
+      table("tmp_import"),
+      table("legacy", "table", "@skip"),
+      table("order_totals", "view"),
+    ],
+  }];
+  const after: SchemaModel[] = [
+    { ...before[0], tables: [table("orders")] },
+    { name: "audit", enums: [], compositeTypes: [], tables: [] },
+  ];
+
+  assertEquals(
+    diff(before, after, {
+      schemas: ["public", "audit"],
+      exclude: ["public.tmp_*"],
+      views: false,
+    }).map((change) => `${change.change} ${change.object} ${change.name}`),
+    ["added schema audit"],
+  );
+  assertEquals(
+    diff(before, after, { schemas: ["public"] }).map((change) => change.name),
+    ["public.tmp_import", "public.order_totals"],
+  );
+});
+
+Deno.test("Lint rules flag schema design and generation problems", () => {
+  const column = (overrides: Partial<CatalogColumnRow>) =>
+    toColumnInfo({ ...ordersCatalogRows[1], ...overrides });
+  const schemas: SchemaModel[] = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [],
+    tables: [
+      {
+        name: "events",
+        kind: "table" as const,
+        columns: [
+          column({ column_name: "orderId" }),
+          column({ column_name: "happened_at", udt_name: "timestamp" }),
+          column({
+            column_name: "archived",
+            udt_name: "bool",
+            is_nullable: true,
+          }),
+          column({ column_name: "label", udt_name: "varchar", typmod: -1 }),
+          column({ column_name: "code", udt_name: "varchar", typmod: 36 }),
+          column({
+            column_name: "area",
+            udt_name: "geometry",
+            udt_schema: "public",
+          }),
+          column({ column_name: "type" }),
+        ],
+        constraints: [{
+          name: "events_order_fkey",
+          type: "foreign_key" as const,
+          columns: ["orderId"],
+          references: { schema: "public", table: "orders", columns: ["id"] },
+        }],
+        indexes: [],
+      },
+      {
+        name: "recent_events",
+        kind: "view" as const,
+        columns: [
+          column({ column_name: "happened_at", udt_name: "timestamp" }),
+        ],
+        constraints: [],
+      },
+    ],
+  }];
+
+  const findings = lintSchemas(schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertEquals(
+    findings.map((finding) =>
+      `${finding.severity} ${finding.rule} ${finding.name}`
+    ),
+    [
+      "warning missing-primary-key public.events",
+      "warning unindexed-foreign-key public.events.events_order_fkey",
+      "note field-name-round-trip public.events.orderId",
+      "warning timestamp-without-time-zone public.events.happened_at",
+      "note nullable-boolean public.events.archived",
+      "note unbounded-varchar public.events.label",
+      "warning unmapped-type public.events.area",
+    ],
+  );
+  assertEquals(findings[2].location, {
+    schema: "public",
+    table: "events",
+    column: "orderId",
+  });
+  assertStringIncludes(
+    formatLintFindings(findings),
+    "\n7 problem(s): 0 error(s), 4 warning(s), 3 note(s)\n",
+  );
+
+  // Severities from the config, overrides and a supporting index
+  schemas[0].tables[0].indexes = [{
+    name: "events_order_idx",
+    columns: ["orderId", "happened_at"],
+    unique: false,
+    primary: false,
+    definition: "",
+  }];
+  const configured = lintSchemas(schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    columnOverrides: new Map([
+      ["public.events.orderId", { rename: "order_id" }],
+      ["public.events.area", { type: "geo_types::Geometry" }],
+    ]),
+    severities: { "missing-primary-key": "error", "unbounded-varchar": "off" },
+  });
+  assertEquals(
+    configured.map((finding) => `${finding.severity} ${finding.rule}`),
+    [
+      "error missing-primary-key",
+      "warning timestamp-without-time-zone",
+      "note nullable-boolean",
+    ],
+  );
+  assertEquals(formatLintFindings([]), "No problems found\n");
+});
+
+Deno.test("Lint design rules check composite types but not views", () => {
+  const column = (overrides: Partial<CatalogColumnRow>) =>
+    toColumnInfo({ ...ordersCatalogRows[1], ...overrides });
+  const attributes = [
+    column({ column_name: "happened_at", udt_name: "timestamp" }),
+    column({ column_name: "confirmed", udt_name: "bool", is_nullable: true }),
+  ];
+  const schemas: SchemaModel[] = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [{ name: "event", columns: attributes }],
+    tables: [{
+      name: "recent_events",
+      kind: "view",
+      columns: attributes,
+      constraints: [],
+    }],
+  }];
+
+  const findings = lintSchemas(schemas, { typeMap: DEFAULT_TYPE_MAP });
+  assertEquals(
+    findings.map((finding) => `${finding.rule} ${finding.name}`),
+    [
+      "timestamp-without-time-zone public.event.happened_at",
+      "nullable-boolean public.event.confirmed",
+    ],
+  );
+  assertEquals(findings[0].location, {
+    schema: "public",
+    compositeType: "event",
+    column: "happened_at",
+  });
+});
+
+Deno.test("Lint findings point into the snapshot in SARIF", async () => {
+  const text = await Deno.readTextFile(fixturePath);
+  const snapshot = parseSnapshot(text);
+  const findings = lint(snapshot.schemas, {
+    config: { version: 3, lint: { "timestamp-without-time-zone": "off" } },
+  });
+  assertEquals(findings.map((finding) => finding.name), [
+    "public.users.displayName",
+  ]);
+
+  const sarif = toSarif(findings, { uri: "schema.json", text }) as {
+    version: string;
+    runs: {
+      tool: {
+        driver: {
+          rules: {
+            id: string;
+            shortDescription: { text: string };
+            defaultConfiguration: { level: string };
+          }[];
+        };
+      };
+      results: Record<string, unknown>[];
+    }[];
+  };
+  assertEquals(sarif.version, "2.1.0");
+  const [run] = sarif.runs;
+  assertEquals(run.tool.driver.rules[5].id, "field-name-round-trip");
+  assertEquals(run.tool.driver.rules[6], {
+    id: "unmapped-type",
+    shortDescription: {
+      text:
+        "Column types should have a typeMap entry instead of falling back to String",
+    },
+    defaultConfiguration: { level: "warning" },
+  });
+  const line = text.split("\n").findIndex((line) =>
+    line.includes('"name": "displayName"')
+  );
+  assertEquals(run.results[0], {
+    ruleId: "field-name-round-trip",
+    ruleIndex: 5,
+    level: "note",
+    message: { text: findings[0].message },
+    locations: [{
+      logicalLocations: [{
+        fullyQualifiedName: "public.users.displayName",
+        kind: "member",
+      }],
+      physicalLocation: {
+        artifactLocation: { uri: "schema.json" },
+        // The column object starts on the line before its name
+        region: { startLine: line, startColumn: 13 },
+      },
+    }],
+  });
+
+  // Without a snapshot there are only logical locations
+  const [result] = (toSarif(findings) as typeof sarif).runs[0].results;
+  assertEquals(
+    (result.locations as Record<string, unknown>[])[0].physicalLocation,
+    undefined,
+  );
+});
+
+Deno.test("Generate TypeScript interfaces from a snapshot", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const content = renderTypeScript(snapshot.schemas, {
+    typeMap: DEFAULT_TS_TYPE_MAP,
+  });
+
+  assertStringIncludes(
+    content,
+    'export type PostStatus = "draft" | "published" | "archived";',
+  );
+  assertStringIncludes(content, "export interface Users {");
+  assertStringIncludes(content, "  id: string;\n");
+  assertStringIncludes(content, "  displayName: string | null;\n");
+  assertStringIncludes(content, "  status: PostStatus;\n");
+  assertStringIncludes(content, "  published: boolean;\n");
+});
+
+Deno.test("Generate Zod schemas from a snapshot", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const content = renderZod(snapshot.schemas, {
+    typeMap: { ...DEFAULT_ZOD_TYPE_MAP, varchar: "z.string().max(255)" },
+  });
+
+  assertStringIncludes(content, 'import { z } from "zod";');
+  assertStringIncludes(
+    content,
+    'export const PostStatus = z.enum(["draft", "published", "archived"]);',
+  );
+  assertStringIncludes(content, "export const Users = z.object({");
+  assertStringIncludes(content, "export type Users = z.infer<typeof Users>;");
+  assertStringIncludes(content, "  id: z.string().uuid(),\n");
+  assertStringIncludes(content, "  email: z.string().max(255),\n");
+  assertStringIncludes(content, "  displayName: z.string().nullable(),\n");
+  assertStringIncludes(content, "  status: PostStatus,\n");
+});
+
+// Load a generated Zod module with a stand-in for zod whose lazy doesn't call
+// back, so that only the order of the declarations matters
+async function importZodModule(content: string) {
+  const testDir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(
+      join(testDir, "zod.ts"),
+      "const schema: any = new Proxy(function () {}, {\n" +
+        "  get: (_target, key) => key === 'then' ? undefined : schema,\n" +
+        "  apply: () => schema,\n" +
+        "});\n" +
+        "export const z = schema;\n",
+    );
+    const modulePath = join(testDir, "schemas.ts");
+    await Deno.writeTextFile(
+      modulePath,
+      content.replace('from "zod"', 'from "./zod.ts"'),
+    );
+    return await import(`file://${modulePath}`);
+  } finally {
+    await Deno.remove(testDir, { recursive: true });
+  }
+}
+
+Deno.test("Zod schemas load when namespaces reference each other", async () => {
+  const enumColumn = (name: string, schema: string, type: string) =>
+    toColumnInfo({
+      ...ordersCatalogRows[1],
+      column_name: name,
+      udt_name: type,
+      udt_schema: schema,
+    });
+  const schemas: SchemaModel[] = [
+    {
+      name: "billing",
+      enums: [{ schema: "billing", name: "invoice_state", variants: ["open"] }],
+      compositeTypes: [],
+      tables: [{
+        name: "invoices",
+        kind: "table",
+        columns: [enumColumn("kind", "shop", "order_kind")],
+        constraints: [],
+      }],
+    },
+    {
+      name: "shop",
+      enums: [{ schema: "shop", name: "order_kind", variants: ["retail"] }],
+      compositeTypes: [],
+      tables: [{
+        name: "orders",
+        kind: "table",
+        columns: [enumColumn("invoice_state", "billing", "invoice_state")],
+        constraints: [],
+      }],
+    },
+  ];
+
+  const content = renderZod(schemas, { typeMap: DEFAULT_ZOD_TYPE_MAP });
+  assertStringIncludes(content, "  kind: z.lazy(() => Shop.OrderKind),\n");
+  assertStringIncludes(
+    content,
+    "  invoice_state: z.lazy(() => Billing.InvoiceState),\n",
+  );
+
+  const module = await importZodModule(content);
+  assertEquals(typeof module.Billing.Invoices, "function");
+  assertEquals(typeof module.Shop.Orders, "function");
+});
+
+Deno.test("Zod schemas declare composite types before their users", async () => {
+  const attribute = (name: string, type: string) =>
+    toColumnInfo({
+      ...ordersCatalogRows[1],
+      column_name: name,
+      udt_name: type,
+      udt_schema: "public",
+    });
+  const schemas: SchemaModel[] = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [
+      { name: "address", columns: [attribute("location", "geo_point")] },
+      { name: "geo_point", columns: [attribute("lat", "float8")] },
+    ],
+    tables: [],
+  }];
+
+  const content = renderZod(schemas, { typeMap: DEFAULT_ZOD_TYPE_MAP });
+  assert(
+    content.indexOf("export const GeoPoint") <
+      content.indexOf("export const Address"),
+  );
+  const module = await importZodModule(content);
+  assertEquals(typeof module.Address, "function");
+});
+
+Deno.test("Generate a Markdown data dictionary from a snapshot", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const content = renderMarkdown(snapshot.schemas, { typeMap: {} });
+
+  assertStringIncludes(content, "## Schema `public`\n");
+  assertStringIncludes(
+    content,
+    "### Enum `public.post_status`\n\n| Value |\n| --- |\n| `draft` |\n",
+  );
+  assertStringIncludes(
+    content,
+    "| Column | Type | Nullable | Default | Key | Description |\n",
+  );
+  assertStringIncludes(
+    content,
+    "| `id` | `uuid` | no | `uuid_generate_v4()` | PK |  |\n",
+  );
+  assertStringIncludes(
+    content,
+    "| `displayName` | `text` | yes |  |  |  |\n",
+  );
+  assertStringIncludes(
+    content,
+    "**Foreign keys**\n\n- comments_post_id_fkey: (post_id) → public.posts (id)\n",
+  );
+  assertStringIncludes(
+    content,
+    "**Referenced by**\n\n- public.comments (post_id) via comments_post_id_fkey\n",
+  );
+  assertStringIncludes(content, "- users_email_key: (email)\n");
+});
+
+Deno.test("Data dictionaries document comments, indexes and escape text", () => {
+  const columns = [
+    { ...ordersCatalogRows[0], column_comment: "Order number | id" },
+    {
+      ...ordersCatalogRows[3],
+      column_comment: "Labels like <sale>\n@rust-type Vec<String>",
+    },
+  ].map(toColumnInfo);
+  const schemas = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [],
+    tables: [{
+      name: "orders",
+      kind: "table" as const,
+      comment: "Orders & returns.",
+      columns,
+      constraints: [],
+      indexes: [{
+        name: "orders_tags_idx",
+        columns: ["tags"],
+        unique: false,
+        primary: false,
+        definition:
+          "CREATE INDEX orders_tags_idx ON public.orders USING gin (tags)",
+      }],
+    }],
+  }];
+
+  const markdown = renderMarkdown(schemas, { typeMap: {} });
+  assertStringIncludes(
+    markdown,
+    "### Table `public.orders`\n\nOrders & returns.\n",
+  );
+  assertStringIncludes(
+    markdown,
+    "| `id` | `bigint` | no | `nextval('orders_id_seq'::regclass)` |  | Order number \\| id |\n",
+  );
+  // Annotations aren't documentation
+  assertStringIncludes(markdown, "| Labels like <sale> |\n");
+  assertStringIncludes(
+    markdown,
+    "**Indexes**\n\n- orders_tags_idx: gin (tags)\n",
+  );
+
+  const html = renderHtml(schemas, { typeMap: {} });
+  assertStringIncludes(html, "<!DOCTYPE html>");
+  assertStringIncludes(
+    html,
+    '<section id="public.orders">\n    <h3>Table <code>public.orders</code></h3>\n    <p class="doc">Orders &amp; returns.</p>\n',
+  );
+  assertStringIncludes(html, "<td>Labels like &lt;sale&gt;</td>");
+  assertStringIncludes(html, "<li>orders_tags_idx: gin (tags)</li>");
+  assertEquals(html.includes("@rust-type"), false);
+});
+
+Deno.test("Generate a Mermaid entity relationship diagram from a snapshot", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const content = renderMermaid(snapshot.schemas, { typeMap: {} });
+
+  assertStringIncludes(content, "\nerDiagram\n    comments {\n");
+  assertStringIncludes(
+    content,
+    "        uuid id PK\n        uuid post_id FK\n",
+  );
+  assertStringIncludes(content, "        varchar email UK\n");
+  assertStringIncludes(content, '    posts ||..o{ comments : "post_id"\n');
+  assertStringIncludes(content, '    users ||..o{ posts : "user_id"\n');
+
+  // Relationships to tables left out of the diagram aren't drawn
+  const withoutUsers = snapshot.schemas.map((schema) => ({
+    ...schema,
+    tables: schema.tables.filter((table) => table.name !== "users"),
+  }));
+  const filtered = renderMermaid(withoutUsers, { typeMap: {} });
+  assertStringIncludes(filtered, '    posts ||..o{ comments : "post_id"\n');
+  assertEquals(filtered.includes("users"), false);
+});
+
+Deno.test("Mermaid relationships show optional and identifying foreign keys", () => {
+  const column = (name: string, nullable: boolean) =>
+    toColumnInfo({
+      ...ordersCatalogRows[1],
+      column_name: name,
+      is_nullable: nullable,
+    });
+  const primaryKey = (columns: string[]) => ({
+    name: "pkey",
+    type: "primary_key" as const,
+    columns,
+    references: null,
+  });
+  const foreignKey = (name: string, column: string, table: string) => ({
+    name,
+    type: "foreign_key" as const,
+    columns: [column],
+    references: { schema: "public", table, columns: ["id"] },
+  });
+  const schemas = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [],
+    tables: [
+      {
+        name: "customers",
+        kind: "table" as const,
+        columns: [column("id", false), column("referrer_id", true)],
+        constraints: [
+          primaryKey(["id"]),
+          foreignKey("customers_referrer_fkey", "referrer_id", "customers"),
+        ],
+      },
+      {
+        name: "customer_profiles",
+        kind: "table" as const,
+        columns: [column("customer_id", false)],
+        constraints: [
+          primaryKey(["customer_id"]),
+          foreignKey("profiles_customer_fkey", "customer_id", "customers"),
+        ],
+      },
+    ],
+  }];
+
+  const content = renderMermaid(schemas, { typeMap: {} });
+  assertStringIncludes(
+    content,
+    '    customers |o..o{ customers : "referrer_id"\n',
+  );
+  assertStringIncludes(
+    content,
+    '    customers ||--o| customer_profiles : "customer_id"\n',
+  );
+  assertStringIncludes(content, "        uuid customer_id PK, FK\n");
+});
+
+Deno.test("TypeScript namespaces reference types across schemas", () => {
+  const column = toColumnInfo({
+    ...ordersCatalogRows[0],
+    column_name: "role",
+    udt_name: "role",
+    udt_schema: "auth",
+    formatted_type: "auth.role",
+  });
+  const schemas = [
+    {
+      name: "auth",
+      enums: [{ schema: "auth", name: "role", variants: ["admin", "member"] }],
+      compositeTypes: [],
+      tables: [],
+    },
+    {
+      name: "public",
+      enums: [],
+      compositeTypes: [],
+      tables: [
+        {
+          name: "users",
+          kind: "table" as const,
+          columns: [column],
+          constraints: [],
+        },
+      ],
+    },
+  ];
+
+  const content = renderTypeScript(schemas, { typeMap: DEFAULT_TS_TYPE_MAP });
+  assertStringIncludes(content, "export namespace Auth {\n");
+  assertStringIncludes(content, "export namespace Public {\n");
+  assertStringIncludes(content, "    role: Auth.Role;\n");
+});
+
+Deno.test("Generate a Diesel schema from a snapshot", async () => {
+  const snapshot = await readSnapshot(fixturePath);
+  const content = renderDiesel(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+  });
+
+  // The enum gets a custom SQL type and Diesel (de)serialization impls
+  assertStringIncludes(content, "pub mod sql_types {\n");
+  assertStringIncludes(
+    content,
+    '    #[diesel(postgres_type(name = "post_status"))]\n    pub struct PostStatus;\n',
+  );
+  assertStringIncludes(content, "#[diesel(sql_type = sql_types::PostStatus)]");
+  assertStringIncludes(content, 'PostStatus::Draft => b"draft",');
+
+  // table! declarations with sql_types, renamed columns and custom types
+  assertStringIncludes(content, "    users (id) {\n");
+  assertStringIncludes(content, "        id -> Uuid,\n");
+  assertStringIncludes(
+    content,
+    '        #[sql_name = "displayName"]\n        display_name -> Nullable<Text>,\n',
+  );
+  assertStringIncludes(content, "    use super::sql_types::PostStatus;\n");
+  assertStringIncludes(content, "        status -> PostStatus,\n");
+
+  // Foreign keys become joinable! declarations
+  assertStringIncludes(
+    content,
+    "diesel::joinable!(comments -> posts (post_id));",
+  );
+  assertStringIncludes(
+    content,
+    "diesel::joinable!(posts -> users (user_id));",
+  );
+  assertStringIncludes(
+    content,
+    "diesel::allow_tables_to_appear_in_same_query!(\n    comments,\n    posts,\n    users,\n);",
+  );
+
+  // Queryable structs use the Rust naming and type mapping
+  assertStringIncludes(content, "#[diesel(table_name = users)]\n");
+  assertStringIncludes(content, "pub struct Users {\n");
+  assertStringIncludes(content, "    pub display_name: Option<String>,\n");
+  assertStringIncludes(content, "    pub status: PostStatus,\n");
+
+  // Insertable/AsChangeset structs only with writeStructs
+  assertEquals(content.includes("Insertable"), false);
+  const withWriteStructs = renderDiesel(snapshot.schemas, {
+    typeMap: DEFAULT_TYPE_MAP,
+    writeStructs: true,
+  });
+  assertStringIncludes(
+    withWriteStructs,
+    "#[derive(Debug, Serialize, Deserialize, Insertable)]\n#[diesel(table_name = users)]\npub struct NewUsers {\n",
+  );
+  assertStringIncludes(
+    withWriteStructs,
+    "#[derive(Debug, Default, Serialize, Deserialize, AsChangeset)]\n#[diesel(table_name = users)]\npub struct UsersPatch {\n",
+  );
+});
@@ -1,9 +1,60 @@
-import { assertEquals } from "https://deno.land/std@0.220.1/assert/mod.ts";
-import { parse } from "https://deno.land/std@0.220.1/flags/mod.ts";
+import {
+  assertEquals,
+  assertStringIncludes,
+  assertThrows,
+} from "https://deno.land/std@0.220.1/assert/mod.ts";
 
-// Import helper functions from main.ts
-// Note: We're using relative imports here
-import { toRustFieldName, toRustStructName, toRustType } from "../utils.ts";
+import {
+  normalizeColumnOverrides,
+  resolveColumnOverrides,
+} from "../column_overrides.ts";
+import {
+  CONFIG_SCHEMA,
+  CONFIG_VERSION,
+  defaultConfig,
+  parseConfig,
+  serializeConfig,
+} from "../config.ts";
+import {
+  buildUserTypeMap,
+  describeColumn,
+  docComment,
+  insertColumns,
+  updateColumns,
+} from "../emitter.ts";
+import { parseComment } from "../comments.ts";
+import { LINT_RULE_IDS } from "../schema_lint.ts";
+import { compilePattern, createTableFilter } from "../filters.ts";
+import {
+  type CatalogColumnRow,
+  type ColumnInfo,
+  type SchemaModel,
+  toColumnInfo,
+} from "../introspect.ts";
+import { parseJsonSource } from "../json_source.ts";
+import { parseArgs } from "../main.ts";
+import {
+  toRustFieldName,
+  toRustIdentifier,
+  toRustStructName,
+  uniqueIdentifiers,
+} from "../naming.ts";
+import { parseSnapshot, SNAPSHOT_VERSION } from "../snapshot.ts";
+import { unifiedDiff } from "../text_diff.ts";
+import {
+  DEFAULT_RUST_PRESETS,
+  DEFAULT_TYPE_MAP,
+  getRustType,
+  mapColumnType,
+  rustTypeMap,
+  typeModifiers,
+} from "../type_map.ts";
+import {
+  DEFAULT_TS_TYPE_MAP,
+  toTsPropertyName,
+  TS_TYPE_SYNTAX,
+} from "../typescript.ts";
+import { DEFAULT_ZOD_TYPE_MAP, ZOD_TYPE_SYNTAX } from "../zod.ts";
 
 Deno.test("toRustFieldName converts PostgreSQL column names to Rust snake_case", () => {
   // Test camelCase to snake_case
@@ -24,6 +75,7 @@ Deno.test("toRustFieldName converts PostgreSQL column names to Rust snake_case",
 
   // Test with numbers
   assertEquals(toRustFieldName("user123Id"), "user123_id");
+  assertEquals(toRustFieldName("userId123"), "user_id123");
 
   // Test with all uppercase
   assertEquals(toRustFieldName("USERID"), "userid");
@@ -47,9 +99,12 @@ Deno.test("toRustStructName converts PostgreSQL table names to Rust PascalCase",
 
   // Test with all uppercase
   assertEquals(toRustStructName("USER_PROFILES"), "UserProfiles");
+  // Acronyms in mixed-case names are kept as they are
+  assertEquals(toRustStructName("api_keys"), "ApiKeys");
+  assertEquals(toRustStructName("HTTP_log"), "HTTPLog");
 });
 
-Deno.test("toRustType converts PostgreSQL types to Rust types", () => {
+Deno.test("getRustType converts PostgreSQL types to Rust types", () => {
   // Create a mock type map
   const typeMap = {
     "int2": "i16",
@@ -71,61 +126,1014 @@ Deno.test("toRustType converts PostgreSQL types to Rust types", () => {
   };
 
   // Test basic type conversions
-  assertEquals(toRustType("int4", false, typeMap), "i32");
-  assertEquals(toRustType("varchar", false, typeMap), "String");
-  assertEquals(toRustType("uuid", false, typeMap), "uuid::Uuid");
+  assertEquals(
+    getRustType(catalogColumn({ column_name: "c", udt_name: "int4" }), typeMap),
+    "i32",
+  );
+  assertEquals(
+    getRustType(
+      catalogColumn({ column_name: "c", udt_name: "varchar" }),
+      typeMap,
+    ),
+    "String",
+  );
+  assertEquals(
+    getRustType(catalogColumn({ column_name: "c", udt_name: "uuid" }), typeMap),
+    "uuid::Uuid",
+  );
 
   // Test nullable types (should be wrapped in Option<T>)
-  assertEquals(toRustType("int4", true, typeMap), "Option<i32>");
-  assertEquals(toRustType("varchar", true, typeMap), "Option<String>");
-  assertEquals(toRustType("uuid", true, typeMap), "Option<uuid::Uuid>");
+  assertEquals(
+    getRustType(
+      catalogColumn({ column_name: "c", udt_name: "int4", is_nullable: true }),
+      typeMap,
+    ),
+    "Option<i32>",
+  );
+  assertEquals(
+    getRustType(
+      catalogColumn({
+        column_name: "c",
+        udt_name: "varchar",
+        is_nullable: true,
+      }),
+      typeMap,
+    ),
+    "Option<String>",
+  );
+  assertEquals(
+    getRustType(
+      catalogColumn({ column_name: "c", udt_name: "uuid", is_nullable: true }),
+      typeMap,
+    ),
+    "Option<uuid::Uuid>",
+  );
 
   // Test unknown type (should default to String)
-  assertEquals(toRustType("unknown_type", false, typeMap), "String");
-  assertEquals(toRustType("unknown_type", true, typeMap), "Option<String>");
+  assertEquals(
+    getRustType(
+      catalogColumn({ column_name: "c", udt_name: "unknown_type" }),
+      typeMap,
+    ),
+    "String",
+  );
+  assertEquals(
+    getRustType(
+      catalogColumn({
+        column_name: "c",
+        udt_name: "unknown_type",
+        is_nullable: true,
+      }),
+      typeMap,
+    ),
+    "Option<String>",
+  );
 });
 
-Deno.test("Command-line argument parsing works correctly", () => {
-  // Test default values
-  const args1 = parse(["--help"], {
-    boolean: ["help", "sqlx"],
-    string: ["output", "dir", "name"],
-    alias: {
-      o: "output",
-      d: "dir",
-      n: "name",
-      h: "help",
-      s: "sqlx",
+// Build a column as it comes back from the catalog query
+function catalogColumn(
+  row: Partial<CatalogColumnRow> & {
+    column_name: string;
+    udt_name: string;
+  },
+): ColumnInfo {
+  return toColumnInfo({
+    udt_schema: "pg_catalog",
+    element_type: null,
+    element_schema: null,
+    element_not_null: false,
+    typmod: -1,
+    dimensions: 0,
+    is_nullable: false,
+    column_default: null,
+    identity: "",
+    generated: "",
+    formatted_type: row.udt_name,
+    column_comment: null,
+    ...row,
+  });
+}
+
+Deno.test("getRustType maps catalog udt names through the typeMap", () => {
+  const integer = catalogColumn({
+    column_name: "id",
+    udt_name: "int4",
+    formatted_type: "integer",
+    column_default: "nextval('users_id_seq'::regclass)",
+  });
+  assertEquals(getRustType(integer, DEFAULT_TYPE_MAP), "i32");
+
+  const varchar = catalogColumn({
+    column_name: "email",
+    udt_name: "varchar",
+    typmod: 259,
+    formatted_type: "character varying(255)",
+  });
+  assertEquals(getRustType(varchar, DEFAULT_TYPE_MAP), "String");
+
+  const fixedChar = catalogColumn({
+    column_name: "country_code",
+    udt_name: "bpchar",
+    typmod: 6,
+    formatted_type: "character(2)",
+  });
+  assertEquals(getRustType(fixedChar, DEFAULT_TYPE_MAP), "String");
+
+  const timestamptz = catalogColumn({
+    column_name: "created_at",
+    udt_name: "timestamptz",
+    formatted_type: "timestamp with time zone",
+    is_nullable: true,
+  });
+  assertEquals(
+    getRustType(timestamptz, DEFAULT_TYPE_MAP),
+    "Option<chrono::DateTime<chrono::Utc>>",
+  );
+});
+
+Deno.test("getRustType maps array columns through their element type", () => {
+  const tags = catalogColumn({
+    column_name: "tags",
+    udt_name: "_text",
+    element_type: "text",
+    element_schema: "pg_catalog",
+    dimensions: 1,
+    formatted_type: "text[]",
+  });
+  assertEquals(getRustType(tags, DEFAULT_TYPE_MAP), "Vec<String>");
+
+  const scores = catalogColumn({
+    column_name: "scores",
+    udt_name: "_int8",
+    element_type: "int8",
+    element_schema: "pg_catalog",
+    dimensions: 1,
+    is_nullable: true,
+    formatted_type: "bigint[]",
+  });
+  assertEquals(getRustType(scores, DEFAULT_TYPE_MAP), "Option<Vec<i64>>");
+});
+
+Deno.test("getRustType nests multi-dimensional arrays", () => {
+  const matrix = catalogColumn({
+    column_name: "matrix",
+    udt_name: "_float8",
+    element_type: "float8",
+    element_schema: "pg_catalog",
+    dimensions: 2,
+    formatted_type: "double precision[]",
+  });
+  assertEquals(getRustType(matrix, DEFAULT_TYPE_MAP), "Vec<Vec<f64>>");
+  assertEquals(
+    mapColumnType(matrix, DEFAULT_TS_TYPE_MAP, TS_TYPE_SYNTAX),
+    "number[][]",
+  );
+
+  // Views and composite types record no dimensions; arrays are at least one
+  assertEquals(
+    getRustType({ ...matrix, dimensions: 0 }, DEFAULT_TYPE_MAP),
+    "Vec<f64>",
+  );
+});
+
+Deno.test("getRustType makes array elements nullable when configured", () => {
+  const tags = catalogColumn({
+    column_name: "tags",
+    udt_name: "_text",
+    element_type: "text",
+    element_schema: "pg_catalog",
+    dimensions: 1,
+    is_nullable: true,
+  });
+  assertEquals(getRustType(tags, DEFAULT_TYPE_MAP), "Option<Vec<String>>");
+  assertEquals(
+    getRustType(tags, DEFAULT_TYPE_MAP, true),
+    "Option<Vec<Option<String>>>",
+  );
+  assertEquals(
+    mapColumnType(tags, DEFAULT_TS_TYPE_MAP, TS_TYPE_SYNTAX, true),
+    "(string | null)[] | null",
+  );
+  assertEquals(
+    mapColumnType(tags, DEFAULT_ZOD_TYPE_MAP, ZOD_TYPE_SYNTAX, true),
+    "z.array(z.string().nullable()).nullable()",
+  );
+
+  // Elements of a NOT NULL domain (resolved to its base type) can't be null
+  const codes = catalogColumn({
+    column_name: "codes",
+    udt_name: "_country_code",
+    element_type: "bpchar",
+    element_schema: "pg_catalog",
+    element_not_null: true,
+    dimensions: 1,
+  });
+  assertEquals(getRustType(codes, DEFAULT_TYPE_MAP, true), "Vec<String>");
+});
+
+Deno.test("getRustType maps arrays of enums and composite types", () => {
+  const status = { schema: "billing", name: "status", variants: ["paid"] };
+  const schemas: SchemaModel[] = [
+    {
+      name: "billing",
+      enums: [status],
+      compositeTypes: [{ name: "line_item", columns: [] }],
+      tables: [],
+    },
+    { name: "public", enums: [], compositeTypes: [], tables: [] },
+  ];
+  const statuses = catalogColumn({
+    column_name: "statuses",
+    udt_name: "_status",
+    udt_schema: "billing",
+    element_type: "status",
+    element_schema: "billing",
+    dimensions: 1,
+  });
+  const items = catalogColumn({
+    column_name: "items",
+    udt_name: "_line_item",
+    udt_schema: "billing",
+    element_type: "line_item",
+    element_schema: "billing",
+    dimensions: 1,
+  });
+
+  const qualify = (schemaName: string, typeName: string) =>
+    `super::${schemaName}::${typeName}`;
+  const billingTypes = buildUserTypeMap(
+    schemas,
+    schemas[0],
+    { typeMap: DEFAULT_TYPE_MAP },
+    qualify,
+  );
+  assertEquals(getRustType(statuses, billingTypes), "Vec<Status>");
+  assertEquals(
+    getRustType(items, billingTypes, true),
+    "Vec<Option<LineItem>>",
+  );
+
+  // From another schema's module the generated types are qualified
+  const publicTypes = buildUserTypeMap(
+    schemas,
+    schemas[1],
+    { typeMap: DEFAULT_TYPE_MAP },
+    qualify,
+  );
+  assertEquals(
+    getRustType(statuses, publicTypes),
+    "Vec<super::billing::Status>",
+  );
+});
+
+Deno.test("getRustType falls back for unmapped types", () => {
+  const point = catalogColumn({
+    column_name: "location",
+    udt_name: "point",
+  });
+
+  // Without a "default" entry the fallback is String
+  assertEquals(getRustType(point, DEFAULT_TYPE_MAP), "String");
+
+  // A "default" entry in the typeMap takes precedence
+  assertEquals(
+    getRustType(point, { ...DEFAULT_TYPE_MAP, default: "serde_json::Value" }),
+    "serde_json::Value",
+  );
+});
+
+Deno.test("getRustType prefers schema-qualified typeMap entries", () => {
+  const billingStatus = catalogColumn({
+    column_name: "status",
+    udt_name: "status",
+    udt_schema: "billing",
+  });
+  const typeMap = {
+    ...DEFAULT_TYPE_MAP,
+    "status": "String",
+    "billing.status": "super::billing::Status",
+  };
+
+  assertEquals(getRustType(billingStatus, typeMap), "super::billing::Status");
+  assertEquals(
+    getRustType({ ...billingStatus, udtSchema: "auth" }, typeMap),
+    "String",
+  );
+});
+
+Deno.test("rustTypeMap picks crates from the presets", () => {
+  const interval = catalogColumn({ column_name: "ttl", udt_name: "interval" });
+  const amount = catalogColumn({ column_name: "amount", udt_name: "numeric" });
+  const during = catalogColumn({
+    column_name: "during",
+    udt_name: "tstzrange",
+  });
+  const address = catalogColumn({ column_name: "address", udt_name: "inet" });
+  const avatar = catalogColumn({ column_name: "avatar", udt_name: "bytea" });
+
+  assertEquals(
+    getRustType(interval, DEFAULT_TYPE_MAP),
+    "sqlx::postgres::types::PgInterval",
+  );
+  assertEquals(getRustType(amount, DEFAULT_TYPE_MAP), "rust_decimal::Decimal");
+  assertEquals(
+    getRustType(during, DEFAULT_TYPE_MAP),
+    "sqlx::postgres::types::PgRange<chrono::DateTime<chrono::Utc>>",
+  );
+  assertEquals(getRustType(address, DEFAULT_TYPE_MAP), "ipnetwork::IpNetwork");
+  assertEquals(getRustType(avatar, DEFAULT_TYPE_MAP), "Vec<u8>");
+
+  const typeMap = rustTypeMap({ types: "time", decimal: "bigdecimal" });
+  assertEquals(getRustType(amount, typeMap), "bigdecimal::BigDecimal");
+  assertEquals(
+    getRustType(during, typeMap),
+    "sqlx::postgres::types::PgRange<time::OffsetDateTime>",
+  );
+
+  const dieselTypeMap = rustTypeMap(DEFAULT_RUST_PRESETS, "diesel");
+  assertEquals(
+    getRustType(interval, dieselTypeMap),
+    "diesel::pg::data_types::PgInterval",
+  );
+  assertEquals(
+    getRustType(during, dieselTypeMap),
+    "(std::ops::Bound<chrono::DateTime<chrono::Utc>>, std::ops::Bound<chrono::DateTime<chrono::Utc>>)",
+  );
+});
+
+Deno.test("typeMap entries can select on type modifiers", () => {
+  // numeric(10,2), numeric(12,0), varchar(1) and unconstrained numeric
+  const price = catalogColumn({
+    column_name: "price",
+    udt_name: "numeric",
+    typmod: (10 << 16 | 2) + 4,
+  });
+  const quantity = catalogColumn({
+    column_name: "quantity",
+    udt_name: "numeric",
+    typmod: (12 << 16) + 4,
+  });
+  const flag = catalogColumn({
+    column_name: "flag",
+    udt_name: "varchar",
+    typmod: 5,
+  });
+  const total = catalogColumn({ column_name: "total", udt_name: "numeric" });
+
+  assertEquals(typeModifiers("numeric", price.typmod), "(10,2)");
+  assertEquals(typeModifiers("varchar", flag.typmod), "(1)");
+  assertEquals(typeModifiers("numeric", -1), null);
+  assertEquals(typeModifiers("timestamptz", 3), "(3)");
+
+  const typeMap = {
+    ...DEFAULT_TYPE_MAP,
+    "numeric(12)": "i64",
+    "numeric(10,2)": "f64",
+    "varchar(1)": "char",
+  };
+  assertEquals(getRustType(price, typeMap), "f64");
+  assertEquals(getRustType(quantity, typeMap), "i64");
+  assertEquals(getRustType(flag, typeMap), "char");
+  assertEquals(getRustType(total, typeMap), "rust_decimal::Decimal");
+});
+
+Deno.test("mapColumnType uses the target's type syntax", () => {
+  const tags = catalogColumn({
+    column_name: "tags",
+    udt_name: "_text",
+    element_type: "text",
+    element_schema: "pg_catalog",
+    dimensions: 1,
+    is_nullable: true,
+  });
+  const amount = catalogColumn({ column_name: "amount", udt_name: "numeric" });
+  const point = catalogColumn({ column_name: "location", udt_name: "point" });
+
+  assertEquals(
+    mapColumnType(tags, DEFAULT_TS_TYPE_MAP, TS_TYPE_SYNTAX),
+    "string[] | null",
+  );
+  assertEquals(
+    mapColumnType(amount, DEFAULT_TS_TYPE_MAP, TS_TYPE_SYNTAX),
+    "string",
+  );
+  assertEquals(
+    mapColumnType(point, DEFAULT_TS_TYPE_MAP, TS_TYPE_SYNTAX),
+    "unknown",
+  );
+
+  assertEquals(
+    mapColumnType(tags, DEFAULT_ZOD_TYPE_MAP, ZOD_TYPE_SYNTAX),
+    "z.array(z.string()).nullable()",
+  );
+  assertEquals(
+    mapColumnType(point, DEFAULT_ZOD_TYPE_MAP, ZOD_TYPE_SYNTAX),
+    "z.unknown()",
+  );
+
+  // Union element types are parenthesized inside TypeScript arrays
+  assertEquals(
+    mapColumnType(
+      { ...tags, isNullable: false },
+      { text: "string | null" },
+      TS_TYPE_SYNTAX,
+    ),
+    "(string | null)[]",
+  );
+});
+
+Deno.test("Write structs respect defaults, identity and generated columns", () => {
+  const table = {
+    name: "accounts",
+    kind: "table" as const,
+    columns: [
+      catalogColumn({ column_name: "id", udt_name: "int8", identity: "a" }),
+      catalogColumn({
+        column_name: "code",
+        udt_name: "text",
+        identity: "d",
+        column_default: null,
+      }),
+      catalogColumn({ column_name: "email", udt_name: "text" }),
+      catalogColumn({
+        column_name: "created_at",
+        udt_name: "timestamptz",
+        column_default: "now()",
+      }),
+      catalogColumn({
+        column_name: "email_domain",
+        udt_name: "text",
+        is_nullable: true,
+        column_default: "split_part(email, '@'::text, 2)",
+        generated: "s",
+      }),
+    ],
+    constraints: [
+      {
+        name: "accounts_pkey",
+        type: "primary_key" as const,
+        columns: ["id"],
+        references: null,
+      },
+    ],
+  };
+
+  assertEquals(
+    insertColumns(table).map(({ column, optional }) => [column.name, optional]),
+    [["code", true], ["email", false], ["created_at", true]],
+  );
+  assertEquals(
+    updateColumns(table).map((column) => column.name),
+    ["code", "email", "created_at"],
+  );
+
+  assertEquals(
+    table.columns.map(describeColumn),
+    [
+      "id - int8, identity always",
+      "code - text, identity by default",
+      "email - text",
+      "created_at - timestamptz, default: now()",
+      "email_domain - text, nullable, generated: split_part(email, '@'::text, 2)",
+    ],
+  );
+});
+
+Deno.test("compilePattern matches globs and regexes against whole names", () => {
+  assertEquals(compilePattern("public.*").test("public.users"), true);
+  assertEquals(compilePattern("public.*").test("billing.users"), false);
+  assertEquals(compilePattern("*.user?").test("auth.users"), true);
+  assertEquals(compilePattern("*.user?").test("auth.user_roles"), false);
+
+  // Dots in globs are literal
+  assertEquals(compilePattern("public.users").test("publicXusers"), false);
+
+  // Regexes aren't anchored unless written that way
+  assertEquals(compilePattern("/_log$/").test("audit.request_log"), true);
+  assertEquals(compilePattern("/^TMP_/i").test("tmp_import"), true);
+
+  assertThrows(
+    () => compilePattern("/(unclosed/"),
+    Error,
+    'Invalid filter pattern "/(unclosed/"',
+  );
+});
+
+Deno.test("createTableFilter applies includes before excludes", () => {
+  const all = createTableFilter([], ["*._sqlx_migrations"]);
+  assertEquals(all("public", "users"), true);
+  assertEquals(all("public", "_sqlx_migrations"), false);
+
+  const owned = createTableFilter(["public.*", "billing.invoices"], [
+    "/^public\\.tmp_/",
+  ]);
+  assertEquals(owned("public", "users"), true);
+  assertEquals(owned("public", "tmp_import"), false);
+  assertEquals(owned("billing", "invoices"), true);
+  assertEquals(owned("billing", "payments"), false);
+});
+
+Deno.test("normalizeColumnOverrides normalizes the columns mapping", () => {
+  assertEquals(normalizeColumnOverrides(undefined), {});
+  assertEquals(
+    normalizeColumnOverrides({
+      "orders.total": "rust_decimal::Decimal",
+      "auth.users.password_hash": {
+        rename: "password_digest",
+        attributes: ["#[serde(skip_serializing)]", "serde(default)"],
+      },
+      "orders.notes": { skip: true },
+    }),
+    {
+      "orders.total": { type: "rust_decimal::Decimal" },
+      "auth.users.password_hash": {
+        rename: "password_digest",
+        attributes: ["serde(skip_serializing)", "serde(default)"],
+      },
+      "orders.notes": { skip: true, attributes: undefined },
     },
-    default: {
-      dir: Deno.cwd(),
-      sqlx: false,
+  );
+});
+
+Deno.test("parseConfig validates the columns mapping", () => {
+  const text = `{
+  "version": 3,
+  "columns": {
+    "total": "f64",
+    "orders.total": { "kind": "f64" },
+    "users.email": { "attributes": "serde", "skip": "yes" }
+  }
+}`;
+  const error = assertThrows(
+    () => parseConfig(text, "config/db.json"),
+    Error,
+  ) as Error;
+  assertEquals(error.message.split("\n"), [
+    'config/db.json:4:5: columns.total must be "table.column" or "schema.table.column"',
+    'config/db.json:5:23: columns["orders.total"].kind is not a known key (expected type, rename, attributes, skip)',
+    'config/db.json:6:36: columns["users.email"].attributes must be an array',
+    'config/db.json:6:53: columns["users.email"].skip must be true or false',
+  ]);
+});
+
+Deno.test("resolveColumnOverrides rejects unknown tables and columns", () => {
+  const table = (name: string) => ({
+    name,
+    kind: "table" as const,
+    columns: [
+      catalogColumn({ column_name: "id", udt_name: "int8" }),
+      catalogColumn({ column_name: "email", udt_name: "text" }),
+    ],
+    constraints: [],
+  });
+  const schemas = ["auth", "public"].map((name) => ({
+    name,
+    enums: [],
+    compositeTypes: [],
+    tables: [table("users")],
+  }));
+
+  const resolved = resolveColumnOverrides(schemas, {
+    "auth.users.email": { type: "crate::AuthEmail" },
+    "users.email": { type: "crate::Email" },
+  });
+  assertEquals(resolved.get("public.users.email"), { type: "crate::Email" });
+  assertEquals(resolved.get("auth.users.email"), { type: "crate::AuthEmail" });
+
+  assertThrows(
+    () => resolveColumnOverrides(schemas, { "orders.total": {} }),
+    Error,
+    'Column override "orders.total" names table "orders", which doesn\'t exist',
+  );
+  assertThrows(
+    () => resolveColumnOverrides(schemas, { "users.mail": {} }),
+    Error,
+    'Column override "users.mail" names column "mail", which doesn\'t exist in auth.users (columns: id, email)',
+  );
+});
+
+Deno.test("parseComment separates annotations from the text", () => {
+  assertEquals(parseComment(null), {
+    doc: null,
+    annotations: { skip: false },
+  });
+  assertEquals(
+    parseComment(
+      "Amount in cents.\r\n\r\n@rust-type crate::Cents\n@see orders",
+    ),
+    {
+      doc: "Amount in cents.\n\n@see orders",
+      annotations: { rustType: "crate::Cents", skip: false },
     },
+  );
+  assertEquals(parseComment("  @skip  "), {
+    doc: null,
+    annotations: { skip: true },
   });
+  // Annotations have to be on a line of their own
+  assertEquals(parseComment("Don't @skip this").annotations.skip, false);
 
-  assertEquals(args1.help, true);
-  assertEquals(args1.sqlx, false);
-  assertEquals(args1.dir, Deno.cwd());
+  assertThrows(
+    () => parseComment("@rust-type", "Comment on column public.orders.total"),
+    Error,
+    "Comment on column public.orders.total: @rust-type needs a type",
+  );
+});
 
-  // Test setting values
-  const args2 = parse(["--sqlx", "--dir", "/tmp", "--name", "test.rs"], {
-    boolean: ["help", "sqlx"],
-    string: ["output", "dir", "name"],
-    alias: {
-      o: "output",
-      d: "dir",
-      n: "name",
-      h: "help",
-      s: "sqlx",
+Deno.test("parseComment keeps @skip with more text as documentation", () => {
+  assertEquals(parseComment("Old flags\n@skip this is deprecated, see #12"), {
+    doc: "Old flags\n@skip this is deprecated, see #12",
+    annotations: { skip: false },
+  });
+  assertEquals(parseComment("@skipped in exports").annotations.skip, false);
+});
+
+Deno.test("docComment puts every line behind ///", () => {
+  assertEquals(docComment("One line"), "/// One line\n");
+  assertEquals(
+    docComment("First\r\n\n  indented  \nlast", "    "),
+    "    /// First\n    ///\n    ///   indented\n    /// last\n",
+  );
+});
+
+Deno.test("resolveColumnOverrides applies comment annotations under mappings.json", () => {
+  const schemas = [{
+    name: "public",
+    enums: [],
+    compositeTypes: [],
+    tables: [{
+      name: "orders",
+      kind: "table" as const,
+      columns: [
+        catalogColumn({
+          column_name: "total",
+          udt_name: "int8",
+          column_comment: "Total in cents\n@rust-type crate::Cents",
+        }),
+        catalogColumn({
+          column_name: "legacy",
+          udt_name: "text",
+          column_comment: "@skip",
+        }),
+      ],
+      constraints: [],
+    }],
+  }];
+
+  assertEquals(
+    resolveColumnOverrides(schemas, {}).get("public.orders.total"),
+    { type: "crate::Cents", skip: undefined },
+  );
+  const resolved = resolveColumnOverrides(schemas, {
+    "orders.total": { type: "i64", rename: "total_cents" },
+  });
+  assertEquals(resolved.get("public.orders.total"), {
+    type: "i64",
+    rename: "total_cents",
+    skip: undefined,
+  });
+  assertEquals(resolved.get("public.orders.legacy"), {
+    type: undefined,
+    skip: true,
+  });
+
+  schemas[0].tables[0].columns[1].comment = "@rust-type";
+  assertThrows(
+    () => resolveColumnOverrides(schemas, {}),
+    Error,
+    "Comment on column public.orders.legacy: @rust-type needs a type",
+  );
+});
+
+Deno.test("toRustIdentifier escapes keywords and leading digits", () => {
+  assertEquals(toRustIdentifier("user_id"), "user_id");
+  assertEquals(toRustIdentifier("type"), "r#type");
+  assertEquals(toRustIdentifier("match"), "r#match");
+  assertEquals(toRustIdentifier("type", false), "type_");
+  // Keywords that can't be raw identifiers
+  assertEquals(toRustIdentifier("self"), "self_");
+  assertEquals(toRustIdentifier("Self"), "Self_");
+  assertEquals(toRustIdentifier("_"), "__");
+  assertEquals(toRustIdentifier("2fa_secret"), "_2fa_secret");
+});
+
+Deno.test("uniqueIdentifiers disambiguates colliding names deterministically", () => {
+  const snake = (name: string) =>
+    name.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase();
+
+  // The name matching the identifier keeps it, wherever it comes
+  const { identifiers, collisions } = uniqueIdentifiers(
+    ["userId", "user_id", "user_id_2", "USER_ID"],
+    snake,
+  );
+  assertEquals(identifiers, ["user_id_3", "user_id", "user_id_2", "user_id_4"]);
+  assertEquals(collisions, [
+    {
+      name: "userId",
+      keptBy: "user_id",
+      preferred: "user_id",
+      identifier: "user_id_3",
     },
-    default: {
-      dir: Deno.cwd(),
-      sqlx: false,
+    {
+      name: "USER_ID",
+      keptBy: "user_id",
+      preferred: "user_id",
+      identifier: "user_id_4",
     },
+  ]);
+
+  // Raw identifiers are suffixed without r#
+  assertEquals(
+    uniqueIdentifiers(["type", "Type"], () => "r#type").identifiers,
+    ["r#type", "type_2"],
+  );
+  assertEquals(
+    uniqueIdentifiers(["in-progress", "in_progress"], () => "InProgress", "")
+      .identifiers,
+    ["InProgress", "InProgress2"],
+  );
+});
+
+Deno.test("toTsPropertyName quotes names that aren't identifiers", () => {
+  assertEquals(toTsPropertyName("user_id"), "user_id");
+  assertEquals(toTsPropertyName("userId"), "userId");
+  assertEquals(toTsPropertyName("user-id"), '"user-id"');
+  assertEquals(toTsPropertyName("2fa_enabled"), '"2fa_enabled"');
+});
+
+Deno.test("parseSnapshot validates the snapshot layout", () => {
+  const snapshot = parseSnapshot(
+    JSON.stringify({ version: SNAPSHOT_VERSION, database: "db", schemas: [] }),
+  );
+  assertEquals(snapshot.database, "db");
+
+  assertThrows(
+    () => parseSnapshot(JSON.stringify({ version: 0, database: "db" })),
+    Error,
+    "Unsupported snapshot version 0",
+  );
+  assertThrows(
+    () =>
+      parseSnapshot(JSON.stringify({ version: SNAPSHOT_VERSION, schemas: [] })),
+    Error,
+    "missing the database name",
+  );
+  assertThrows(() => parseSnapshot("[]"), Error);
+});
+
+Deno.test("parseJsonSource reports syntax errors with line and column", () => {
+  const source = parseJsonSource(
+    '{\n  "typeMaps": {\n    "rust": { "int4": "i32" }\n  }\n}',
+    "mappings.json",
+  );
+  assertEquals(source.locate(["typeMaps", "rust", "int4"]), {
+    line: 3,
+    column: 23,
+  });
+  assertEquals(source.locate(["typeMaps", "rust"], true), {
+    line: 3,
+    column: 5,
   });
+  // Missing paths resolve to their nearest parent
+  assertEquals(source.locate(["typeMaps", "ts"]), { line: 2, column: 15 });
+
+  assertThrows(
+    () => parseJsonSource('{\n  "a": 1,\n  "b": 2\n  "c": 3\n}', "m.json"),
+    Error,
+    'm.json:4:3: Expected "," or "}", unexpected "\\""',
+  );
+  assertThrows(
+    () => parseJsonSource('{\n  "a": 1,\n}', "m.json"),
+    Error,
+    'm.json:3:1: Expected a property name, unexpected "}"',
+  );
+  assertThrows(
+    () => parseJsonSource('{ "a": 1, "a": 2 }', "m.json"),
+    Error,
+    'm.json:1:11: Duplicate key "a"',
+  );
+  assertThrows(
+    () => parseJsonSource('{ "a": [1, 2', "m.json"),
+    Error,
+    'm.json:1:13: Expected "," or "]", unexpected end of file',
+  );
+});
+
+Deno.test("parseConfig validates against the schema with locations", () => {
+  const { config, migratedFrom } = parseConfig(
+    serializeConfig(defaultConfig()),
+    "mappings.json",
+  );
+  assertEquals(config.version, CONFIG_VERSION);
+  assertEquals(config.typeMaps, { rust: {} });
+  assertEquals(migratedFrom, null);
+
+  const text = `{
+  "version": 3,
+  "typeMpas": {},
+  "include": ["public.*", 3],
+  "columns": {
+    "users": "String",
+    "users.email": { "rename": "e-mail" },
+    "users.id": 5
+  }
+}`;
+  const error = assertThrows(
+    () => parseConfig(text, "mappings.json"),
+    Error,
+  ) as Error;
+  assertEquals(
+    error.message.split("\n"),
+    [
+      "mappings.json:3:3: typeMpas is not a known key (expected $schema, version, typeMap, typeMaps, specialCases, include, exclude, columns, lint)",
+      "mappings.json:4:27: include[1] must be a string",
+      'mappings.json:6:5: columns.users must be "table.column" or "schema.table.column"',
+      'mappings.json:7:32: columns["users.email"].rename must be a valid Rust identifier',
+      'mappings.json:8:17: columns["users.id"] must be a type string or an object',
+    ],
+  );
+
+  assertThrows(
+    () => parseConfig('{ "version": 4 }', "mappings.json"),
+    Error,
+    "mappings.json:1:14: version 4 is newer than this release supports (up to 3)",
+  );
+  assertThrows(
+    () => parseConfig('{ "version": 3, "typeMap": {} }', "mappings.json"),
+    Error,
+    'mappings.json:1:17: typeMap was replaced by "typeMaps.rust"',
+  );
+});
+
+Deno.test("parseConfig validates lint rule severities", () => {
+  // Every rule can be configured
+  assertEquals(
+    Object.keys(CONFIG_SCHEMA.properties!.lint.properties!),
+    LINT_RULE_IDS,
+  );
+
+  const { config } = parseConfig(
+    '{ "version": 3, "lint": { "nullable-boolean": "off" } }',
+    "mappings.json",
+  );
+  assertEquals(config.lint, { "nullable-boolean": "off" });
+
+  const error = assertThrows(
+    () =>
+      parseConfig(
+        '{ "version": 3, "lint": { "unmapped-type": "fatal", "no-nulls": "off" } }',
+        "mappings.json",
+      ),
+    Error,
+  ) as Error;
+  assertEquals(error.message.split("\n"), [
+    'mappings.json:1:44: lint["unmapped-type"] must be one of "error", "warning", "note", "off"',
+    'mappings.json:1:53: lint["no-nulls"] is not a known key (expected missing-primary-key, unindexed-foreign-key, timestamp-without-time-zone, nullable-boolean, unbounded-varchar, field-name-round-trip, unmapped-type)',
+  ]);
+});
+
+Deno.test("parseConfig migrates version 1 files", () => {
+  const { config, migratedFrom, migrationSteps } = parseConfig(
+    JSON.stringify({
+      typeMap: { int4: "i64" },
+      typeMaps: { ts: { int4: "string" } },
+      specialCases: { people: "Person" },
+    }),
+    "mappings.json",
+  );
+  assertEquals(migratedFrom, 1);
+  assertEquals(migrationSteps.length, 2);
+  assertEquals(migrationSteps[0], 'move "typeMap" to "typeMaps.rust"');
+  assertEquals(config, {
+    version: 3,
+    typeMaps: { ts: { int4: "string" }, rust: { int4: "i64" } },
+    specialCases: { people: "Person" },
+  });
+});
+
+Deno.test("parseConfig drops the Rust defaults older versions wrote", () => {
+  const { config, migratedFrom, migrationSteps } = parseConfig(
+    JSON.stringify({
+      version: 2,
+      typeMaps: {
+        rust: {
+          "int4": "i32",
+          "numeric": "f64",
+          "char": "String",
+          "bpchar": "String",
+          "date": "chrono::NaiveDate",
+          "int8": "i128",
+          "numeric(10,2)": "f64",
+          "inet": "String",
+        },
+        ts: { numeric: "number" },
+      },
+    }),
+    "mappings.json",
+  );
+  assertEquals(migratedFrom, 2);
+  assertEquals(migrationSteps.length, 1);
+  assertStringIncludes(migrationSteps[0], '"numeric": "f64"');
+  // Entries that differ from the old defaults are the user's own
+  assertEquals(config.typeMaps, {
+    rust: { "int8": "i128", "numeric(10,2)": "f64", "inet": "String" },
+    ts: { numeric: "number" },
+  });
+  assertEquals(
+    parseConfig('{ "version": 2 }', "mappings.json").config,
+    { version: 3 },
+  );
+});
+
+Deno.test("unifiedDiff is empty for identical texts", () => {
+  const text = "pub struct Users {\n    pub id: i32,\n}\n";
+  assertEquals(unifiedDiff(text, text, { fromFile: "a", toFile: "b" }), "");
+});
+
+Deno.test("unifiedDiff reports changed lines with context", () => {
+  const oldText = [
+    "pub struct Users {",
+    "    /// id - int4",
+    "    pub id: i32,",
+    "    /// email - text",
+    "    pub email: String,",
+    "}",
+    "",
+  ].join("\n");
+  const newText = [
+    "pub struct Users {",
+    "    /// id - int4",
+    "    pub id: i32,",
+    "    /// email - text, nullable",
+    "    pub email: Option<String>,",
+    "}",
+    "",
+  ].join("\n");
+
+  assertEquals(
+    unifiedDiff(oldText, newText, {
+      fromFile: "db_types.rs",
+      toFile: "db_types.rs (generated)",
+      context: 1,
+    }),
+    [
+      "--- db_types.rs",
+      "+++ db_types.rs (generated)",
+      "@@ -3,4 +3,4 @@",
+      "     pub id: i32,",
+      "-    /// email - text",
+      "-    pub email: String,",
+      "+    /// email - text, nullable",
+      "+    pub email: Option<String>,",
+      " }",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("unifiedDiff splits distant changes into separate hunks", () => {
+  const oldLines = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+  const newLines = [...oldLines];
+  newLines.splice(1, 1);
+  newLines.push("line 21");
+
+  assertEquals(
+    unifiedDiff(oldLines.join("\n"), newLines.join("\n"), {
+      fromFile: "old",
+      toFile: "new",
+      context: 1,
+    }),
+    [
+      "--- old",
+      "+++ new",
+      "@@ -1,3 +1,2 @@",
+      " line 1",
+      "-line 2",
+      " line 3",
+      "@@ -20,1 +19,2 @@",
+      " line 20",
+      "+line 21",
+      "",
+    ].join("\n"),
+  );
+});
+
+Deno.test("Command-line argument parsing works correctly", () => {
+  // Test default values
+  const args1 = parseArgs(["--help"]);
+
+  assertEquals(args1.help, true);
+  assertEquals(args1.sqlx, false);
+  assertEquals(args1.dir, Deno.cwd());
+  assertEquals(args1.target, "rust");
+  assertEquals(args1.imports, true);
+
+  // Test setting values, with the separator deno task adds
+  const args2 = parseArgs(["--", "-s", "--dir", "/tmp", "--name", "test.rs"]);
 
   assertEquals(args2.sqlx, true);
   assertEquals(args2.dir, "/tmp");
   assertEquals(args2.name, "test.rs");
   assertEquals(args2.help, false);
+  assertEquals(args2._, []);
 });
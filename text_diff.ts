@@ -0,0 +1,184 @@
+// Line-based unified diff, used to report drift between generated output and
+// the files on disk
+
+type Edit = {
+  type: "equal" | "delete" | "insert";
+  line: string;
+};
+
+// Edit distance beyond which the changed region is reported as a wholesale
+// replacement, bounding the memory used by the Myers trace
+const MAX_EDIT_DISTANCE = 4000;
+
+// Myers' O(ND) diff of two line arrays
+function myersDiff(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return [
+        ...a.map((line): Edit => ({ type: "delete", line })),
+        ...b.map((line): Edit => ({ type: "insert", line })),
+      ];
+    }
+
+    // Keep the diagonals [-d - 1, d + 1] as they were before this step
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return [];
+}
+
+// Walk the Myers trace back from the end to recover the edit script
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const at = (k: number) => snapshot[k + d + 1];
+    const k = x - y;
+
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1))
+      ? k + 1
+      : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ type: "equal", line: a[x - 1] });
+      x--;
+      y--;
+    }
+
+    if (d > 0) {
+      if (x === prevX) {
+        edits.push({ type: "insert", line: b[y - 1] });
+        y--;
+      } else {
+        edits.push({ type: "delete", line: a[x - 1] });
+        x--;
+      }
+    }
+  }
+
+  return edits.reverse();
+}
+
+// Diff two line arrays, trimming the common prefix and suffix first
+function diffLines(a: string[], b: string[]): Edit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (line: string): Edit => ({ type: "equal", line });
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(equal),
+  ];
+}
+
+export type UnifiedDiffOptions = {
+  // Labels for the --- and +++ header lines
+  fromFile: string;
+  toFile: string;
+  // Lines of context around each change (default: 3)
+  context?: number;
+};
+
+// Produce a unified diff of two texts, or an empty string when they are equal
+export function unifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions,
+): string {
+  if (oldText === newText) return "";
+
+  const context = options.context ?? 3;
+  const edits = diffLines(oldText.split("\n"), newText.split("\n"));
+
+  // Mark the edits that fall within the context of a change
+  const keep = new Array<boolean>(edits.length).fill(false);
+  edits.forEach((edit, index) => {
+    if (edit.type === "equal") return;
+    const from = Math.max(0, index - context);
+    const to = Math.min(edits.length - 1, index + context);
+    for (let i = from; i <= to; i++) keep[i] = true;
+  });
+
+  const output = [`--- ${options.fromFile}`, `+++ ${options.toFile}`];
+  let oldLine = 0;
+  let newLine = 0;
+  let index = 0;
+
+  while (index < edits.length) {
+    if (!keep[index]) {
+      oldLine++;
+      newLine++;
+      index++;
+      continue;
+    }
+
+    // Collect a contiguous run of kept edits into one hunk
+    const hunkLines: string[] = [];
+    const oldStart = oldLine;
+    const newStart = newLine;
+    while (index < edits.length && keep[index]) {
+      const edit = edits[index];
+      if (edit.type === "equal") {
+        hunkLines.push(` ${edit.line}`);
+        oldLine++;
+        newLine++;
+      } else if (edit.type === "delete") {
+        hunkLines.push(`-${edit.line}`);
+        oldLine++;
+      } else {
+        hunkLines.push(`+${edit.line}`);
+        newLine++;
+      }
+      index++;
+    }
+
+    const oldCount = oldLine - oldStart;
+    const newCount = newLine - newStart;
+    output.push(
+      `@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${
+        newCount ? newStart + 1 : newStart
+      },${newCount} @@`,
+      ...hunkLines,
+    );
+  }
+
+  return output.join("\n") + "\n";
+}
@@ -0,0 +1,249 @@
+// PostgreSQL to Rust (and other target) type resolution
+
+import type { ColumnInfo } from "./introspect.ts";
+
+// Crates the built-in Rust types come from, chosen with --types and --decimal
+export type RustTypePresets = {
+  // Date and time types
+  types: "chrono" | "time";
+  // numeric
+  decimal: "rust_decimal" | "bigdecimal";
+};
+
+export const DEFAULT_RUST_PRESETS: RustTypePresets = {
+  types: "chrono",
+  decimal: "rust_decimal",
+};
+
+export const RUST_TYPE_PRESETS = {
+  types: ["chrono", "time"],
+  decimal: ["rust_decimal", "bigdecimal"],
+} as const;
+
+// Built-in Rust typeMap, keyed by pg_type names. Types that need a database
+// library's wrapper (intervals, ranges, money) use sqlx's by default, or
+// Diesel's for Diesel output. The choice depends on the type name alone, not on
+// its modifiers: only typeMap entries such as "numeric(10,2)" can pick a type
+// by precision, scale or length.
+export function rustTypeMap(
+  presets: RustTypePresets = DEFAULT_RUST_PRESETS,
+  library: "sqlx" | "diesel" = "sqlx",
+): Record<string, string> {
+  const temporal = presets.types === "time"
+    ? {
+      date: "time::Date",
+      time: "time::Time",
+      timestamp: "time::PrimitiveDateTime",
+      timestamptz: "time::OffsetDateTime",
+      offset: "time::UtcOffset",
+    }
+    : {
+      date: "chrono::NaiveDate",
+      time: "chrono::NaiveTime",
+      timestamp: "chrono::NaiveDateTime",
+      timestamptz: "chrono::DateTime<chrono::Utc>",
+      offset: "chrono::FixedOffset",
+    };
+  const decimal = presets.decimal === "bigdecimal"
+    ? "bigdecimal::BigDecimal"
+    : "rust_decimal::Decimal";
+
+  const ranges: Record<string, string> = {
+    int4range: "i32",
+    int8range: "i64",
+    numrange: decimal,
+    daterange: temporal.date,
+    tsrange: temporal.timestamp,
+    tstzrange: temporal.timestamptz,
+  };
+  const range = library === "diesel"
+    ? (bound: string) =>
+      `(std::ops::Bound<${bound}>, std::ops::Bound<${bound}>)`
+    : (bound: string) => `sqlx::postgres::types::PgRange<${bound}>`;
+
+  return {
+    "int2": "i16",
+    "int4": "i32",
+    "int8": "i64",
+    "float4": "f32",
+    "float8": "f64",
+    "numeric": decimal,
+    "money": library === "diesel"
+      ? "diesel::pg::data_types::PgMoney"
+      : "sqlx::postgres::types::PgMoney",
+    "bool": "bool",
+    "varchar": "String",
+    // The single-byte "char" type, not char(n), which is bpchar
+    "char": "i8",
+    "bpchar": "String",
+    "text": "String",
+    "name": "String",
+    "bytea": "Vec<u8>",
+    "uuid": "uuid::Uuid",
+    "oid": library === "diesel" ? "u32" : "sqlx::postgres::types::Oid",
+    "date": temporal.date,
+    "time": temporal.time,
+    ...(library === "diesel" ? {} : {
+      "timetz":
+        `sqlx::postgres::types::PgTimeTz<${temporal.time}, ${temporal.offset}>`,
+    }),
+    "timestamp": temporal.timestamp,
+    "timestamptz": temporal.timestamptz,
+    "interval": library === "diesel"
+      ? "diesel::pg::data_types::PgInterval"
+      : "sqlx::postgres::types::PgInterval",
+    "inet": "ipnetwork::IpNetwork",
+    "cidr": "ipnetwork::IpNetwork",
+    "macaddr": library === "diesel" ? "[u8; 6]" : "mac_address::MacAddress",
+    "bit": "bit_vec::BitVec",
+    "varbit": "bit_vec::BitVec",
+    "json": "serde_json::Value",
+    "jsonb": "serde_json::Value",
+    ...Object.fromEntries(
+      Object.entries(ranges).map(([name, bound]) => [name, range(bound)]),
+    ),
+  };
+}
+
+// Default Rust typeMap, with chrono and rust_decimal types
+export const DEFAULT_TYPE_MAP: Record<string, string> = rustTypeMap();
+
+// Type modifiers of a column as written in SQL, e.g. "(10,2)" for
+// numeric(10,2) or "(255)" for varchar(255), null when it has none
+export function typeModifiers(
+  typeName: string,
+  typmod: number,
+): string | null {
+  if (typmod < 0) return null;
+  switch (typeName) {
+    case "numeric": {
+      // ((precision << 16) | scale) + 4, where scale is an 11-bit signed value
+      const value = typmod - 4;
+      const precision = (value >> 16) & 0xffff;
+      const scale = ((value & 0x7ff) ^ 0x400) - 0x400;
+      return `(${precision},${scale})`;
+    }
+    case "varchar":
+    case "bpchar":
+      // Length + 4 for the varlena header
+      return `(${typmod - 4})`;
+    case "bit":
+    case "varbit":
+    case "time":
+    case "timetz":
+    case "timestamp":
+    case "timestamptz":
+      return `(${typmod})`;
+    default:
+      return null;
+  }
+}
+
+// How a target language spells arrays, nullable types and unmapped types
+export type TypeSyntax = {
+  array(elementType: string): string;
+  nullable(type: string): string;
+  // Used when neither the type nor a "default" entry is mapped
+  fallback: string;
+};
+
+export const RUST_TYPE_SYNTAX: TypeSyntax = {
+  array: (elementType) => `Vec<${elementType}>`,
+  nullable: (type) => `Option<${type}>`,
+  fallback: "String",
+};
+
+// Look up a pg_type in the typeMap, preferring entries for its exact type
+// modifiers ("numeric(10,2)"), then its precision alone ("numeric(10)"), and
+// schema-qualified entries over bare names. Null when no entry matches.
+export function findMappedType(
+  typeSchema: string | null,
+  typeName: string,
+  typmod: number,
+  typeMap: Record<string, string>,
+): string | null {
+  const modifiers = typeModifiers(typeName, typmod);
+  const names = [typeName];
+  if (modifiers) {
+    const [precision] = modifiers.split(",");
+    if (precision !== modifiers) names.unshift(`${typeName}${precision})`);
+    names.unshift(`${typeName}${modifiers}`);
+  }
+  for (const name of names) {
+    const type = (typeSchema && typeMap[`${typeSchema}.${name}`]) ||
+      typeMap[name];
+    if (type) return type;
+  }
+  return null;
+}
+
+// Map a pg_type, falling back to the "default" entry or the target's
+// fallback type
+function mapTypeName(
+  typeSchema: string | null,
+  typeName: string,
+  typmod: number,
+  typeMap: Record<string, string>,
+  syntax: TypeSyntax,
+) {
+  return findMappedType(typeSchema, typeName, typmod, typeMap) ??
+    (typeMap["default"] || syntax.fallback);
+}
+
+// Get the target language type for a column resolved from the catalog. With
+// nullableElements, array elements are nullable unless their type is a NOT
+// NULL domain.
+export function mapColumnType(
+  column: ColumnInfo,
+  typeMap: Record<string, string>,
+  syntax: TypeSyntax,
+  nullableElements = false,
+): string {
+  let type: string;
+
+  // Array columns map their element type, nested once per declared
+  // dimension. attndims is 0 for arrays in views and composite types.
+  if (column.elementType) {
+    type = mapTypeName(
+      column.elementSchema,
+      column.elementType,
+      column.typmod,
+      typeMap,
+      syntax,
+    );
+    if (nullableElements && !column.elementNotNull) {
+      type = syntax.nullable(type);
+    }
+    for (
+      let dimension = 0;
+      dimension < Math.max(column.dimensions, 1);
+      dimension++
+    ) {
+      type = syntax.array(type);
+    }
+  } else {
+    type = mapTypeName(
+      column.udtSchema,
+      column.udtName,
+      column.typmod,
+      typeMap,
+      syntax,
+    );
+  }
+
+  // Wrap nullable fields
+  if (column.isNullable) {
+    type = syntax.nullable(type);
+  }
+
+  return type;
+}
+
+// Get Rust type for a column resolved from the catalog
+export function getRustType(
+  column: ColumnInfo,
+  typeMap: Record<string, string>,
+  nullableElements = false,
+): string {
+  return mapColumnType(column, typeMap, RUST_TYPE_SYNTAX, nullableElements);
+}
@@ -0,0 +1,155 @@
+// TypeScript interface generation from the introspected schema model
+
+import {
+  buildUserTypeMap,
+  describeColumn,
+  type Emitter,
+  type EmitterOptions,
+  indent,
+} from "./emitter.ts";
+import type { ColumnInfo, SchemaModel } from "./introspect.ts";
+import { toRustStructName } from "./naming.ts";
+import { mapColumnType, type TypeSyntax } from "./type_map.ts";
+
+// Default TypeScript types, matching how values arrive as JSON. 64-bit
+// integers and numerics are strings so that no precision is lost.
+export const DEFAULT_TS_TYPE_MAP: Record<string, string> = {
+  "int2": "number",
+  "int4": "number",
+  "int8": "string",
+  "float4": "number",
+  "float8": "number",
+  "numeric": "string",
+  "bool": "boolean",
+  "varchar": "string",
+  "char": "string",
+  "bpchar": "string",
+  "text": "string",
+  "uuid": "string",
+  "date": "string",
+  "timestamp": "string",
+  "timestamptz": "string",
+  "json": "unknown",
+  "jsonb": "unknown",
+};
+
+export const TS_TYPE_SYNTAX: TypeSyntax = {
+  // Union element types need parentheses, e.g. (string | null)[]
+  array: (elementType) =>
+    /[ |]/.test(elementType) ? `(${elementType})[]` : `${elementType}[]`,
+  nullable: (type) => `${type} | null`,
+  fallback: "unknown",
+};
+
+// Quote property names that aren't valid identifiers
+export function toTsPropertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+// Keep comment text from closing the surrounding /** */ block
+export function escapeJsDoc(text: string): string {
+  return text.replaceAll("*/", "*\\/");
+}
+
+// Namespace name for a schema. PascalCase keeps schema names such as
+// "public" clear of reserved words.
+export function toTsNamespaceName(schema: string): string {
+  return toRustStructName(schema);
+}
+
+// Render an interface property with its doc comment
+function renderProperty(
+  column: ColumnInfo,
+  typeMap: Record<string, string>,
+  readonly: boolean,
+  nullableElements?: boolean,
+): string {
+  const type = mapColumnType(column, typeMap, TS_TYPE_SYNTAX, nullableElements);
+  return `  /** ${escapeJsDoc(describeColumn(column))} */\n` +
+    `  ${readonly ? "readonly " : ""}${
+      toTsPropertyName(column.name)
+    }: ${type};\n`;
+}
+
+// Render TypeScript interfaces for the given schemas
+export function renderTypeScript(
+  schemas: SchemaModel[],
+  options: EmitterOptions,
+): string {
+  const specialCases = options.specialCases || {};
+  const typeName = (name: string) => toRustStructName(name, specialCases);
+
+  // With several schemas each one becomes its own namespace
+  const useNamespaces = schemas.length > 1;
+
+  let output = "// Generated TypeScript types for PostgreSQL database\n\n";
+
+  for (const schema of schemas) {
+    let schemaOutput = "";
+
+    const typeMap = buildUserTypeMap(
+      schemas,
+      schema,
+      options,
+      (schemaName, name) => `${toTsNamespaceName(schemaName)}.${name}`,
+    );
+
+    // Enums become string literal unions
+    for (const enumInfo of schema.enums) {
+      const labels = enumInfo.variants.map((label) => JSON.stringify(label));
+      schemaOutput += `export type ${typeName(enumInfo.name)} = ${
+        labels.join(" | ")
+      };\n\n`;
+    }
+
+    for (const compositeType of schema.compositeTypes) {
+      schemaOutput += `export interface ${typeName(compositeType.name)} {\n`;
+      for (const column of compositeType.columns) {
+        schemaOutput += renderProperty(
+          column,
+          typeMap,
+          false,
+          options.nullableArrayElements,
+        );
+      }
+      schemaOutput += `}\n\n`;
+    }
+
+    for (const table of schema.tables) {
+      const readonly = table.kind !== "table";
+      if (table.kind === "view") {
+        schemaOutput += `/** Read-only view \`${table.name}\` */\n`;
+      } else if (table.kind === "materialized_view") {
+        schemaOutput +=
+          `/** Read-only materialized view \`${table.name}\` */\n`;
+      }
+
+      schemaOutput += `export interface ${typeName(table.name)} {\n`;
+      for (const column of table.columns) {
+        schemaOutput += renderProperty(
+          column,
+          typeMap,
+          readonly,
+          options.nullableArrayElements,
+        );
+      }
+      schemaOutput += `}\n\n`;
+    }
+
+    if (useNamespaces) {
+      output += `export namespace ${toTsNamespaceName(schema.name)} {\n${
+        indent(schemaOutput.trimEnd(), "  ")
+      }\n}\n\n`;
+    } else {
+      output += schemaOutput;
+    }
+  }
+
+  return output;
+}
+
+export const typescriptEmitter: Emitter = {
+  defaultTypeMap: DEFAULT_TS_TYPE_MAP,
+  defaultFilename: (database) => `${database}_types.ts`,
+  render: renderTypeScript,
+};
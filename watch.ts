@@ -0,0 +1,64 @@
+// Watch mode: noticing migration changes and schema changes in the database
+
+import type { SchemaModel } from "./introspect.ts";
+
+export type WatchOptions = {
+  // Quiet period after the last change before onChange runs
+  debounceMs?: number;
+  // Stops watching when aborted
+  signal?: AbortSignal;
+};
+
+// Fingerprint of the introspected schema, a SHA-256 hash of the model built
+// from the catalog rows. Equal fingerprints mean the generated code can't have
+// changed.
+export async function schemaFingerprint(
+  schemas: SchemaModel[],
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(JSON.stringify(schemas)),
+  );
+  return Array.from(
+    new Uint8Array(digest),
+    (byte) => byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+// Call onChange with the changed paths whenever files below dir change, once
+// the changes have settled. Changes made while onChange runs lead to another
+// call afterwards; onChange is expected to handle its own errors. Resolves
+// when the signal is aborted.
+export async function watchChanges(
+  dir: string,
+  onChange: (paths: string[]) => Promise<void>,
+  options: WatchOptions = {},
+): Promise<void> {
+  const { debounceMs = 300, signal } = options;
+  const watcher = Deno.watchFs(dir, { recursive: true });
+  signal?.addEventListener("abort", () => watcher.close(), { once: true });
+
+  const changed = new Set<string>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> = Promise.resolve();
+
+  const flush = () => {
+    timer = undefined;
+    running = running.then(async () => {
+      if (changed.size === 0 || signal?.aborted) return;
+      const paths = [...changed].sort();
+      changed.clear();
+      await onChange(paths);
+    });
+  };
+
+  for await (const event of watcher) {
+    // Reads don't change anything
+    if (event.kind === "access" || event.kind === "any") continue;
+    for (const path of event.paths) changed.add(path);
+    clearTimeout(timer);
+    timer = setTimeout(flush, debounceMs);
+  }
+  clearTimeout(timer);
+  await running;
+}
@@ -0,0 +1,182 @@
+// Zod schema generation from the introspected schema model
+
+import {
+  buildUserTypeMap,
+  describeColumn,
+  type Emitter,
+  type EmitterOptions,
+  indent,
+} from "./emitter.ts";
+import type {
+  ColumnInfo,
+  CompositeTypeModel,
+  SchemaModel,
+} from "./introspect.ts";
+import { toRustStructName } from "./naming.ts";
+import { mapColumnType, type TypeSyntax } from "./type_map.ts";
+import {
+  escapeJsDoc,
+  toTsNamespaceName,
+  toTsPropertyName,
+} from "./typescript.ts";
+
+// Default Zod validators, matching the TypeScript target's types
+export const DEFAULT_ZOD_TYPE_MAP: Record<string, string> = {
+  "int2": "z.number().int()",
+  "int4": "z.number().int()",
+  "int8": "z.string()",
+  "float4": "z.number()",
+  "float8": "z.number()",
+  "numeric": "z.string()",
+  "bool": "z.boolean()",
+  "varchar": "z.string()",
+  "char": "z.string()",
+  "bpchar": "z.string()",
+  "text": "z.string()",
+  "uuid": "z.string().uuid()",
+  "date": "z.string()",
+  "timestamp": "z.string()",
+  "timestamptz": "z.string()",
+  "json": "z.unknown()",
+  "jsonb": "z.unknown()",
+};
+
+export const ZOD_TYPE_SYNTAX: TypeSyntax = {
+  array: (elementType) => `z.array(${elementType})`,
+  nullable: (type) => `${type}.nullable()`,
+  fallback: "z.unknown()",
+};
+
+// Render an object schema entry with its doc comment
+function renderProperty(
+  column: ColumnInfo,
+  typeMap: Record<string, string>,
+  nullableElements?: boolean,
+): string {
+  const validator = mapColumnType(
+    column,
+    typeMap,
+    ZOD_TYPE_SYNTAX,
+    nullableElements,
+  );
+  return `  /** ${escapeJsDoc(describeColumn(column))} */\n` +
+    `  ${toTsPropertyName(column.name)}: ${validator},\n`;
+}
+
+// Render a schema constant together with its inferred type
+function renderSchema(name: string, schema: string): string {
+  return `export const ${name} = ${schema};\n` +
+    `export type ${name} = z.infer<typeof ${name}>;\n\n`;
+}
+
+// Composite types of a schema with the ones they use before them, since a
+// schema constant can't be used before its declaration. PostgreSQL doesn't
+// allow composite types to contain themselves, so there are no cycles.
+function compositeTypesInDependencyOrder(
+  schema: SchemaModel,
+): CompositeTypeModel[] {
+  const byName = new Map(
+    schema.compositeTypes.map((compositeType) => [
+      compositeType.name,
+      compositeType,
+    ]),
+  );
+  const ordered = new Set<CompositeTypeModel>();
+  const visit = (compositeType: CompositeTypeModel) => {
+    if (ordered.has(compositeType)) return;
+    for (const column of compositeType.columns) {
+      const typeSchema = column.elementSchema ?? column.udtSchema;
+      const used = byName.get(column.elementType ?? column.udtName);
+      if (typeSchema === schema.name && used) visit(used);
+    }
+    ordered.add(compositeType);
+  };
+  schema.compositeTypes.forEach(visit);
+  return [...ordered];
+}
+
+// Render Zod schemas for the given schemas
+export function renderZod(
+  schemas: SchemaModel[],
+  options: EmitterOptions,
+): string {
+  const specialCases = options.specialCases || {};
+  const typeName = (name: string) => toRustStructName(name, specialCases);
+
+  // With several schemas each one becomes its own namespace
+  const useNamespaces = schemas.length > 1;
+
+  let output = "// Generated Zod schemas for PostgreSQL database\n\n";
+  output += `import { z } from "zod";\n\n`;
+
+  for (const schema of schemas) {
+    let schemaOutput = "";
+
+    // Namespaces are declared in order, so types of other schemas are
+    // looked up lazily: theirs may not be initialized yet, e.g. when two
+    // schemas reference each other
+    const typeMap = buildUserTypeMap(
+      schemas,
+      schema,
+      options,
+      (schemaName, name) =>
+        `z.lazy(() => ${toTsNamespaceName(schemaName)}.${name})`,
+    );
+
+    // Enums and composite types come first so that tables can reference them
+    for (const enumInfo of schema.enums) {
+      const labels = enumInfo.variants.map((label) => JSON.stringify(label));
+      schemaOutput += renderSchema(
+        typeName(enumInfo.name),
+        `z.enum([${labels.join(", ")}])`,
+      );
+    }
+
+    for (const compositeType of compositeTypesInDependencyOrder(schema)) {
+      const properties = compositeType.columns
+        .map((column) =>
+          renderProperty(column, typeMap, options.nullableArrayElements)
+        )
+        .join("");
+      schemaOutput += renderSchema(
+        typeName(compositeType.name),
+        `z.object({\n${properties}})`,
+      );
+    }
+
+    for (const table of schema.tables) {
+      if (table.kind === "view") {
+        schemaOutput += `/** Read-only view \`${table.name}\` */\n`;
+      } else if (table.kind === "materialized_view") {
+        schemaOutput +=
+          `/** Read-only materialized view \`${table.name}\` */\n`;
+      }
+
+      const properties = table.columns
+        .map((column) =>
+          renderProperty(column, typeMap, options.nullableArrayElements)
+        )
+        .join("");
+      schemaOutput += renderSchema(
+        typeName(table.name),
+        `z.object({\n${properties}})`,
+      );
+    }
+
+    if (useNamespaces) {
+      output += `export namespace ${toTsNamespaceName(schema.name)} {\n${
+        indent(schemaOutput.trimEnd(), "  ")
+      }\n}\n\n`;
+    } else {
+      output += schemaOutput;
+    }
+  }
+
+  return output;
+}
+
+export const zodEmitter: Emitter = {
+  defaultTypeMap: DEFAULT_ZOD_TYPE_MAP,
+  defaultFilename: (database) => `${database}_schemas.ts`,
+  render: renderZod,
+};